@@ -0,0 +1,89 @@
+'use strict'
+
+import * as crypto from 'crypto'
+import * as vscode from 'vscode'
+
+import {removeToken, storeToken, takeLegacyToken} from './Token'
+import taskCache from './TaskCache'
+import outbox from './Outbox'
+import undoManager from './UndoManager'
+
+export interface AccountProfile {
+  id: string
+  name: string
+  email?: string
+}
+
+const ACCOUNTS_KEY = 'googleTasks.accounts'
+const ACTIVE_ACCOUNT_KEY = 'googleTasks.activeAccount'
+
+let globalState: vscode.Memento | undefined
+
+/**
+ * Keep account profiles in the extension's global state and turn a token left by
+ * a single-account version into the first profile
+ */
+export async function registerAccounts(extensionContext: vscode.ExtensionContext) {
+  globalState = extensionContext.globalState
+  if (getAccounts().length) return
+
+  const legacyToken = await takeLegacyToken()
+  if (!legacyToken) return
+  const account: AccountProfile = {id: createAccountId(), name: 'Google Account'}
+  await storeToken(legacyToken, account.id)
+  await saveAccount(account)
+  await setActiveAccount(account.id)
+}
+
+function getGlobalState(): vscode.Memento {
+  if (!globalState) throw new Error('Account storage is not initialized')
+  return globalState
+}
+
+export function createAccountId(): string {
+  return crypto.randomBytes(8).toString('hex')
+}
+
+export function getAccounts(): AccountProfile[] {
+  return getGlobalState().get<AccountProfile[]>(ACCOUNTS_KEY, [])
+}
+
+export function findAccountByEmail(email: string): AccountProfile | undefined {
+  return getAccounts().find(account => account.email === email)
+}
+
+export function getActiveAccount(): AccountProfile | undefined {
+  const accounts = getAccounts()
+  const activeAccountId = getGlobalState().get<string>(ACTIVE_ACCOUNT_KEY)
+  return accounts.find(account => account.id === activeAccountId) || accounts[0]
+}
+
+export async function setActiveAccount(accountId: string) {
+  await getGlobalState().update(ACTIVE_ACCOUNT_KEY, accountId)
+}
+
+/**
+ * Add the profile, or replace the stored one with the same id
+ */
+export async function saveAccount(account: AccountProfile) {
+  const accounts = getAccounts().filter(({id}) => id !== account.id)
+  await getGlobalState().update(ACCOUNTS_KEY, [...accounts, account])
+}
+
+/**
+ * Forget the profile and its token; the first remaining profile becomes active
+ */
+export async function removeAccount(accountId: string) {
+  await removeToken(accountId)
+  await taskCache.clear(accountId)
+  await outbox.clear(accountId)
+  undoManager.clear(accountId)
+  const accounts = getAccounts().filter(({id}) => id !== accountId)
+  await getGlobalState().update(ACCOUNTS_KEY, accounts)
+  if (getGlobalState().get<string>(ACTIVE_ACCOUNT_KEY) === accountId)
+    await getGlobalState().update(ACTIVE_ACCOUNT_KEY, accounts.length ? accounts[0].id : undefined)
+}
+
+export function isShowingAllAccounts(): boolean {
+  return vscode.workspace.getConfiguration('googleTasks').get<boolean>('showAllAccounts', false)
+}
@@ -0,0 +1,74 @@
+'use strict'
+
+import * as vscode from 'vscode'
+
+import gTaskTreeProvider from './TreeDataProviders/GTask/GTask.TreeDataProvider'
+
+const MIN_INTERVAL_SECONDS = 30
+const MAX_BACKOFF = 60 * 60 * 1000
+
+/**
+ * Syncs the tasks in the background every `googleTasks.autoRefreshInterval` seconds while
+ * the window has focus, backing off exponentially while Google cannot be reached
+ */
+class AutoSync {
+  private timer?: NodeJS.Timeout
+  private failures = 0
+  // A sync fell due while the window was not focused
+  private due = false
+
+  register(extensionContext: vscode.ExtensionContext) {
+    extensionContext.subscriptions.push(
+      vscode.window.onDidChangeWindowState(state => {
+        if (state.focused && this.due) this.run()
+      }),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (!event.affectsConfiguration('googleTasks.autoRefreshInterval')) return
+        this.failures = 0
+        this.schedule()
+      }),
+      {dispose: () => this.stop()}
+    )
+    this.schedule()
+  }
+
+  private getInterval(): number {
+    const seconds = vscode.workspace.getConfiguration('googleTasks').get<number>('autoRefreshInterval', 300)
+    return seconds > 0 ? Math.max(seconds, MIN_INTERVAL_SECONDS) * 1000 : 0
+  }
+
+  private schedule() {
+    this.stop()
+    const interval = this.getInterval()
+    if (!interval) return
+    const delay = Math.min(interval * 2 ** this.failures, Math.max(interval, MAX_BACKOFF))
+    this.timer = setTimeout(() => this.run(), delay)
+  }
+
+  private async run() {
+    this.stop()
+    if (!this.getInterval()) return
+    if (!vscode.window.state.focused) {
+      // Wait for the window to get focus again
+      this.due = true
+      return
+    }
+
+    this.due = false
+    let synced = false
+    try {
+      synced = await gTaskTreeProvider.sync()
+    } catch (err) {
+      console.error('[AutoSync] Error syncing tasks:', err)
+    }
+    this.failures = synced ? 0 : this.failures + 1
+    this.schedule()
+  }
+
+  private stop() {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = undefined
+  }
+}
+
+export default new AutoSync()
@@ -0,0 +1,157 @@
+'use strict'
+
+import * as crypto from 'crypto'
+import {tasks_v1} from 'googleapis'
+import {OAuth2Client} from 'googleapis-common'
+
+import {backoffDelay, callGoogleApi, classifyGoogleApiError, GoogleApiError, isRetryable} from './GoogleApi'
+
+const TASKS_BATCH_ENDPOINT = 'https://tasks.googleapis.com/batch'
+// Most calls Google accepts in a single batch request
+export const MAX_BATCH_SIZE = 1000
+const BATCH_RETRIES = 3
+
+export interface BatchRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE'
+  // Path of the API call, e.g. `/tasks/v1/lists/{tasklist}/tasks`
+  path: string
+  query?: {[name: string]: string | number | boolean | undefined | null}
+  body?: object
+}
+
+export interface BatchResult<T = unknown> {
+  ok: boolean
+  status: number
+  data?: T
+  // Set when the call failed
+  error?: GoogleApiError
+}
+
+/**
+ * OAuth client the service sends its requests with
+ */
+export function getServiceAuth(service: tasks_v1.Tasks): OAuth2Client | undefined {
+  const context = (service as {context?: tasks_v1.Tasks['context']}).context
+  const auth = context && context._options.auth
+  return auth && typeof auth === 'object' && 'request' in auth ? (auth as OAuth2Client) : undefined
+}
+
+/**
+ * Send the calls to Google's batch endpoint, in as few HTTP requests as possible. Calls answered
+ * with 429 or 5xx are sent again with a backoff. Resolves with the result of each call, in order;
+ * rejects only when the batch requests themselves fail.
+ */
+export async function sendBatch<T = unknown>(
+  auth: OAuth2Client,
+  requests: BatchRequest[],
+  endpoint: string = TASKS_BATCH_ENDPOINT
+): Promise<Array<BatchResult<T>>> {
+  const results: Array<BatchResult<T>> = new Array(requests.length)
+  let pending = requests.map((_, index) => index)
+
+  for (let attempt = 0; pending.length; attempt++) {
+    if (attempt) await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt - 1)))
+    const retry: number[] = []
+    for (let start = 0; start < pending.length; start += MAX_BATCH_SIZE) {
+      const chunk = pending.slice(start, start + MAX_BATCH_SIZE)
+      const chunkResults = await sendBatchRequest<T>(auth, chunk.map(index => requests[index]), endpoint)
+      chunkResults.forEach((result, i) => {
+        results[chunk[i]] = result
+        if (!result.ok && attempt < BATCH_RETRIES && isRetryable(result.error)) retry.push(chunk[i])
+      })
+    }
+    pending = retry
+  }
+  return results
+}
+
+async function sendBatchRequest<T>(
+  auth: OAuth2Client,
+  requests: BatchRequest[],
+  endpoint: string
+): Promise<Array<BatchResult<T>>> {
+  const boundary = `batch_${crypto.randomBytes(12).toString('hex')}`
+  const response = await callGoogleApi(() =>
+    auth.request<string>({
+      url: endpoint,
+      method: 'POST',
+      headers: {'Content-Type': `multipart/mixed; boundary=${boundary}`},
+      data: buildBatchBody(requests, boundary),
+      responseType: 'text',
+    })
+  )
+  const contentType = String(response.headers['content-type'] || '')
+  const results = parseBatchResponse<T>(response.data, contentType)
+  return requests.map((_, index) => {
+    const result = results.get(index)
+    if (result) return result
+    const error = new GoogleApiError('The batch response does not contain a result for this call')
+    return {ok: false, status: 0, error}
+  })
+}
+
+/**
+ * Multipart body of a batch request, each part holding one HTTP call
+ */
+export function buildBatchBody(requests: BatchRequest[], boundary: string): string {
+  const parts = requests.map((request, index) => {
+    const lines = [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <item${index}>`,
+      '',
+      `${request.method} ${request.path}${buildQuery(request.query)} HTTP/1.1`,
+    ]
+    if (request.body) lines.push('Content-Type: application/json; charset=UTF-8', '', JSON.stringify(request.body))
+    else lines.push('')
+    return lines.join('\r\n')
+  })
+  return `${parts.join('\r\n')}\r\n--${boundary}--\r\n`
+}
+
+/**
+ * Results of a batch response, by index of the call in the request
+ */
+export function parseBatchResponse<T = unknown>(body: string, contentType: string): Map<number, BatchResult<T>> {
+  const results = new Map<number, BatchResult<T>>()
+  const boundaryMatch = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/)
+  if (!boundaryMatch) throw new GoogleApiError('The batch response is not a multipart response')
+  const boundary = boundaryMatch[1] || boundaryMatch[2]
+
+  body.split(`--${boundary}`).forEach(part => {
+    const contentId = part.match(/Content-ID:\s*<response-item(\d+)>/i)
+    const statusLine = part.match(/HTTP\/1\.1 (\d{3})[^\r\n]*/)
+    if (!contentId || !statusLine) return
+
+    const status = Number(statusLine[1])
+    // The response body follows the blank line after the headers of the embedded response
+    const afterStatus = part.slice((statusLine.index as number) + statusLine[0].length)
+    const separator = afterStatus.search(/\r?\n\r?\n/)
+    const text = separator === -1 ? '' : afterStatus.slice(separator).trim()
+    let data: unknown
+    try {
+      data = text ? JSON.parse(text) : undefined
+    } catch (err) {
+      data = text
+    }
+
+    const ok = status >= 200 && status < 300
+    const error = ok
+      ? undefined
+      : classifyGoogleApiError({
+          // Unless the response tells what went wrong
+          message: `Request failed with status ${status}`,
+          response: {status, data, headers: {}},
+        })
+    results.set(Number(contentId[1]), {ok, status, data: data as T, error})
+  })
+  return results
+}
+
+function buildQuery(query?: BatchRequest['query']): string {
+  if (!query) return ''
+  const params = Object.keys(query)
+    .filter(name => query[name] !== undefined && query[name] !== null)
+    .map(name => `${encodeURIComponent(name)}=${encodeURIComponent(String(query[name]))}`)
+  return params.length ? `?${params.join('&')}` : ''
+}
@@ -0,0 +1,223 @@
+'use strict'
+
+/**
+ * Error raised by a Google API request, classified so callers can react to it
+ */
+export class GoogleApiError extends Error {
+  constructor(message: string, readonly status?: number, readonly cause?: unknown) {
+    super(message)
+    this.name = 'GoogleApiError'
+  }
+}
+
+/**
+ * The authorization expired, was revoked, or lacks a permission
+ */
+export class AuthError extends GoogleApiError {
+  constructor(message: string, status: number | undefined, cause: unknown, readonly revoked: boolean) {
+    super(message, status, cause)
+    this.name = 'AuthError'
+  }
+}
+
+/**
+ * Too many requests, or the daily quota of the Google Cloud project is used up
+ */
+export class QuotaError extends GoogleApiError {
+  constructor(message: string, status: number | undefined, cause: unknown, readonly retryAfter?: number) {
+    super(message, status, cause)
+    this.name = 'QuotaError'
+  }
+}
+
+export class NotFoundError extends GoogleApiError {
+  constructor(message: string, status?: number, cause?: unknown) {
+    super(message, status, cause)
+    this.name = 'NotFoundError'
+  }
+}
+
+/**
+ * Google could not be reached
+ */
+export class NetworkError extends GoogleApiError {
+  constructor(message: string, cause?: unknown) {
+    super(message, undefined, cause)
+    this.name = 'NetworkError'
+  }
+}
+
+export interface RetryOptions {
+  // Retries after the first attempt
+  retries?: number
+  // Base delay of the exponential backoff in milliseconds
+  baseDelay?: number
+  maxDelay?: number
+  sleep?: (ms: number) => Promise<void>
+}
+
+const DEFAULT_RETRIES = 3
+const DEFAULT_BASE_DELAY = 500
+const DEFAULT_MAX_DELAY = 30 * 1000
+
+const NETWORK_ERROR_CODES = ['ENOTFOUND', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ENETUNREACH']
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded', 'quotaExceeded', 'dailyLimitExceeded']
+
+/**
+ * Send a Google API request, retrying responses that may succeed later (429, 5xx and rate limit
+ * 403s) with a jittered exponential backoff that honours `Retry-After`. Failures are thrown as
+ * classified `GoogleApiError`s.
+ */
+export async function callGoogleApi<T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const retries = options.retries === undefined ? DEFAULT_RETRIES : options.retries
+  const baseDelay = options.baseDelay === undefined ? DEFAULT_BASE_DELAY : options.baseDelay
+  const maxDelay = options.maxDelay === undefined ? DEFAULT_MAX_DELAY : options.maxDelay
+  const sleep = options.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)))
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request()
+    } catch (err) {
+      const retryAfter = getRetryAfter(err)
+      // Give up rather than waiting longer than the longest backoff
+      const tooLate = retryAfter !== undefined && retryAfter > maxDelay
+      if (attempt >= retries || !isRetryable(err) || tooLate) throw classifyGoogleApiError(err)
+      await sleep(retryAfter !== undefined ? retryAfter : backoffDelay(attempt, baseDelay, maxDelay))
+    }
+  }
+}
+
+/**
+ * Delay before the retry following the given attempt (counted from 0). Full jitter
+ * spreads out clients retrying at the same time.
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelay: number = DEFAULT_BASE_DELAY,
+  maxDelay: number = DEFAULT_MAX_DELAY
+): number {
+  return Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt)
+}
+
+/**
+ * Shape of the errors thrown by the Google API client, and by Node when a connection fails
+ */
+interface ClientError {
+  code?: string | number
+  message?: string
+  errors?: ApiErrorReason[]
+  response?: {
+    status?: number
+    headers?: { [name: string]: string | undefined }
+    // An API error, or an OAuth error such as `invalid_grant`
+    data?: string | { error?: string | { message?: string; errors?: ApiErrorReason[] } }
+  }
+}
+
+interface ApiErrorReason {
+  reason?: string
+}
+
+/**
+ * Turn an error of the Google API client into a typed `GoogleApiError`
+ */
+export function classifyGoogleApiError(err: unknown): GoogleApiError {
+  if (err instanceof GoogleApiError) return err
+
+  const status = getStatus(err)
+  const message = getErrorMessage(err)
+  if (isInvalidGrantError(err)) return new AuthError(message, status, err, true)
+  if (status === 401) return new AuthError(message, status, err, false)
+  if (status === 429 || isRateLimitError(err)) return new QuotaError(message, status, err, getRetryAfter(err))
+  if (status === 403) return new AuthError(message, status, err, false)
+  if (status === 404 || status === 410) return new NotFoundError(message, status, err)
+  if (!status && isNetworkFailure(err)) return new NetworkError(message, err)
+  return new GoogleApiError(message, status, err)
+}
+
+// OAuth errors of a refresh token that can no longer be used
+const REVOKED_TOKEN_ERRORS = ['invalid_grant', 'unauthorized_client', 'invalid_client']
+
+/**
+ * Whether the error comes from Google rejecting the stored refresh token, i.e. the user
+ * revoked access, the token expired or it was issued for another OAuth client
+ */
+export function isInvalidGrantError(err: unknown): boolean {
+  if (!err) return false
+  if (err instanceof AuthError) return err.revoked
+  if (err instanceof GoogleApiError) return isInvalidGrantError(err.cause)
+  const { response, message } = asClientError(err)
+  const data = response && response.data
+  const error = typeof data === 'string' ? data : data && data.error
+  if (typeof error === 'string' && REVOKED_TOKEN_ERRORS.includes(error)) return true
+  return typeof message === 'string' && REVOKED_TOKEN_ERRORS.some(code => message.includes(code))
+}
+
+/**
+ * Whether the request failed because Google could not be reached
+ */
+export function isOfflineError(err: unknown): boolean {
+  return classifyGoogleApiError(err) instanceof NetworkError
+}
+
+/**
+ * Whether sending the request again later may succeed
+ */
+export function isRetryable(err: unknown): boolean {
+  if (err instanceof QuotaError) return true
+  if (err instanceof GoogleApiError) return err.status !== undefined && err.status >= 500
+  const status = getStatus(err)
+  return status === 429 || (status !== undefined && status >= 500) || isRateLimitError(err)
+}
+
+function asClientError(err: unknown): ClientError {
+  return err && typeof err === 'object' ? (err as ClientError) : {}
+}
+
+/**
+ * The error object of an API error response
+ */
+function getApiError(err: unknown) {
+  const { response } = asClientError(err)
+  const data = response && response.data
+  return data && typeof data === 'object' && data.error && typeof data.error === 'object' ? data.error : undefined
+}
+
+function isNetworkFailure(err: unknown): boolean {
+  const { code, message } = asClientError(err)
+  return NETWORK_ERROR_CODES.includes(String(code)) || (typeof message === 'string' && message.includes('network'))
+}
+
+function isRateLimitError(err: unknown): boolean {
+  if (getStatus(err) !== 403) return false
+  const apiError = getApiError(err)
+  const errors = (apiError && apiError.errors) || asClientError(err).errors || []
+  return errors.some(({ reason }) => Boolean(reason && RATE_LIMIT_REASONS.includes(reason)))
+}
+
+function getStatus(err: unknown): number | undefined {
+  if (err instanceof GoogleApiError) return err.status
+  const { response, code } = asClientError(err)
+  if (response && typeof response.status === 'number') return response.status
+  // The client sets the HTTP status as code, as a number or a string
+  return /^\d{3}$/.test(String(code)) ? Number(code) : undefined
+}
+
+/**
+ * Delay requested by the `Retry-After` header in milliseconds, given in seconds or as a date
+ */
+function getRetryAfter(err: unknown): number | undefined {
+  const { response } = asClientError(err)
+  const headers = response && response.headers
+  const value = headers && (headers['retry-after'] || headers['Retry-After'])
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+function getErrorMessage(err: unknown): string {
+  const apiError = getApiError(err)
+  return (apiError && apiError.message) || asClientError(err).message || String(err)
+}
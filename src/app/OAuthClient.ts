@@ -1,14 +1,65 @@
 import * as path from 'path'
 import * as fs from 'fs'
+import * as vscode from 'vscode'
 import { google } from 'googleapis'
 import { OAuth2Client } from 'googleapis-common'
 import { RootPath } from '../RootPath'
+import { updateStoredToken } from './Token'
 
-export default function getOAuthClient(): OAuth2Client {
+export interface ClientCredentials {
+  client_id: string
+  client_secret: string
+}
+
+const CLIENT_CREDENTIALS_SECRET_KEY = 'googleTasks.clientCredentials'
+const DEFAULT_REDIRECT_URI = 'http://127.0.0.1'
+
+let secrets: vscode.SecretStorage | undefined
+// Organisation supplied credentials, loaded from secret storage on activation
+let customCredentials: ClientCredentials | undefined
+
+export async function registerClientCredentials(extensionContext: vscode.ExtensionContext) {
+  secrets = extensionContext.secrets
+  try {
+    const stored = await secrets.get(CLIENT_CREDENTIALS_SECRET_KEY)
+    customCredentials = stored ? JSON.parse(stored) : undefined
+  } catch (err) {
+    console.error('[OAuth] Error reading client credentials:', err)
+  }
+}
+
+export function hasCustomClientCredentials(): boolean {
+  return Boolean(customCredentials)
+}
+
+export async function storeClientCredentials(credentials: ClientCredentials) {
+  if (!secrets) throw new Error('Client credentials storage is not initialized')
+  await secrets.store(CLIENT_CREDENTIALS_SECRET_KEY, JSON.stringify(credentials))
+  customCredentials = credentials
+}
+
+export async function removeClientCredentials() {
+  if (!secrets) throw new Error('Client credentials storage is not initialized')
+  await secrets.delete(CLIENT_CREDENTIALS_SECRET_KEY)
+  customCredentials = undefined
+}
+
+/**
+ * Create an OAuth client; with an account id, tokens refreshed by the client are
+ * persisted to that account so they survive a reload
+ */
+export default function getOAuthClient(accountId?: string): OAuth2Client {
   const credentials = getCredentials()
   try {
-    const { client_secret, client_id, redirect_uris } = credentials.installed
+    const { client_secret, client_id, redirect_uris } = credentials
     const oAuth2Client = new google.auth.OAuth2(client_id, client_secret, redirect_uris[0])
+    if (accountId) {
+      oAuth2Client.on('tokens', tokens => {
+        updateStoredToken(tokens, accountId).catch(err =>
+          console.error('[OAuth] Error persisting refreshed token:', err)
+        )
+      })
+    }
     return oAuth2Client
   } catch (err) {
     console.error(err)
@@ -16,9 +67,39 @@ export default function getOAuthClient(): OAuth2Client {
   }
 }
 
-function getCredentials() {
+/**
+ * Number of the Google Cloud project owning the OAuth client, which prefixes the client ID
+ */
+export function getClientProjectNumber(): string | undefined {
+  try {
+    const match = getCredentials().client_id.match(/^(\d+)-/)
+    return match ? match[1] : undefined
+  } catch (err) {
+    return undefined
+  }
+}
+
+/**
+ * Check the credentials against Google by redeeming a bogus authorization code:
+ * Google rejects an unknown client with `invalid_client` before looking at the code
+ */
+export async function validateClientCredentials(credentials: ClientCredentials): Promise<boolean> {
+  const oAuth2Client = new google.auth.OAuth2(credentials.client_id, credentials.client_secret, DEFAULT_REDIRECT_URI)
+  try {
+    await oAuth2Client.getToken('invalid-code')
+    return true
+  } catch (err) {
+    const { response } = err as { response?: { data?: { error?: string } } }
+    const data = response && response.data
+    if (!data) throw new Error('Unable to reach Google to validate the client credentials')
+    return data.error !== 'invalid_client' && data.error !== 'unauthorized_client'
+  }
+}
+
+function getCredentials(): ClientCredentials & { redirect_uris: string[] } {
+  if (customCredentials) return { ...customCredentials, redirect_uris: [DEFAULT_REDIRECT_URI] }
   try {
-    return JSON.parse(fs.readFileSync(path.join(RootPath.path, 'resources', 'credentials.json')).toString())
+    return JSON.parse(fs.readFileSync(path.join(RootPath.path, 'resources', 'credentials.json')).toString()).installed
   } catch (err) {
     console.log(err)
     if ((err as any).code === 'ENOENT') throw new Error('Credentials not found')
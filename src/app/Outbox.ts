@@ -0,0 +1,579 @@
+'use strict'
+
+import * as crypto from 'crypto'
+import * as vscode from 'vscode'
+import {tasks_v1} from 'googleapis'
+
+import {CachedAccountTasks} from './TaskCache'
+import {
+  callGoogleApi,
+  classifyGoogleApiError,
+  GoogleApiError,
+  isInvalidGrantError,
+  isOfflineError,
+  isRetryable,
+  NotFoundError,
+} from './GoogleApi'
+import {BatchRequest, getServiceAuth, MAX_BATCH_SIZE, sendBatch} from './Batch'
+import {showGoogleApiError} from './utils/ApiErrorNotification'
+
+export type OutboxMutation =
+  | {kind: 'insertTaskList'; params: tasks_v1.Params$Resource$Tasklists$Insert; localId: string}
+  | {kind: 'patchTaskList'; params: tasks_v1.Params$Resource$Tasklists$Patch}
+  | {kind: 'deleteTaskList'; params: tasks_v1.Params$Resource$Tasklists$Delete}
+  | {kind: 'insertTask'; params: tasks_v1.Params$Resource$Tasks$Insert; localId: string}
+  | {kind: 'patchTask'; params: tasks_v1.Params$Resource$Tasks$Patch}
+  | {kind: 'deleteTask'; params: tasks_v1.Params$Resource$Tasks$Delete}
+  | {kind: 'moveTask'; params: tasks_v1.Params$Resource$Tasks$Move}
+  | {kind: 'clearTasks'; params: tasks_v1.Params$Resource$Tasks$Clear}
+
+/**
+ * Version of the task or task list the mutation was made against, used to detect
+ * changes made elsewhere while the mutation waited in the outbox
+ */
+export interface BaseVersion {
+  etag?: string | null
+  updated?: string | null
+}
+
+export interface OutboxEntry {
+  id: string
+  mutation: OutboxMutation
+  // Title of the changed task or task list, to describe conflicts
+  label: string
+  base?: BaseVersion
+  // Set once replaying failed because Google could not be reached
+  deferred?: boolean
+}
+
+// Task or task list as Google returned it once a mutation was sent
+type SavedItem = tasks_v1.Schema$Task | tasks_v1.Schema$TaskList
+
+export type ConflictResolution = 'mine' | 'theirs'
+
+/**
+ * Ask which side of a conflicting change to keep; undefined postpones the decision
+ */
+export type ConflictResolver = (entry: OutboxEntry) => Thenable<ConflictResolution | undefined>
+
+const DEFAULT_OUTBOX_KEY = 'default'
+const LOCAL_ID_PREFIX = 'local-'
+
+export function createLocalId(): string {
+  return LOCAL_ID_PREFIX + crypto.randomBytes(8).toString('hex')
+}
+
+/**
+ * Mutations made in the tree, persisted in the extension's global storage until
+ * Google accepted them so changes made offline survive a reload
+ */
+class Outbox {
+  private storageUri?: vscode.Uri
+  private entries = new Map<string, OutboxEntry[]>()
+  private replaying = new Map<string, Promise<number>>()
+  // Ids Google assigned to tasks and task lists created offline
+  private resolvedIds = new Map<string, string>()
+  // Entries whose outcome the caller reports itself
+  private quietEntries = new Set<string>()
+  // Outcome of the entries queued in this session until the caller takes it
+  private trackedEntries = new Set<string>()
+  private outcomes = new Map<string, GoogleApiError | null>()
+
+  register(extensionContext: vscode.ExtensionContext) {
+    this.storageUri = vscode.Uri.joinPath(extensionContext.globalStorageUri, 'outbox')
+  }
+
+  async get(accountId?: string): Promise<OutboxEntry[]> {
+    const key = accountId || DEFAULT_OUTBOX_KEY
+    const cached = this.entries.get(key)
+    if (cached) return cached
+    let entries: OutboxEntry[] = []
+    if (this.storageUri) {
+      try {
+        const content = await vscode.workspace.fs.readFile(this.getFileUri(key))
+        entries = JSON.parse(Buffer.from(content).toString('utf8'))
+      } catch (err) {
+        // Nothing queued
+      }
+    }
+    this.entries.set(key, entries)
+    return entries
+  }
+
+  /**
+   * Queue mutations, recording the version of the changed items in the cache. With `quiet`,
+   * rejected mutations are not reported. The caller gets their outcome from `takeOutcomes`.
+   */
+  async enqueue(
+    mutations: OutboxMutation[],
+    cached: CachedAccountTasks | undefined,
+    accountId?: string,
+    quiet: boolean = false
+  ): Promise<OutboxEntry[]> {
+    const entries = await this.get(accountId)
+    const added = mutations.map(mutation => {
+      const resolved = resolveMutationIds(mutation, this.resolvedIds)
+      const entry = {id: crypto.randomBytes(8).toString('hex'), mutation: resolved, ...describeMutation(resolved, cached)}
+      this.trackedEntries.add(entry.id)
+      if (quiet) this.quietEntries.add(entry.id)
+      return entry
+    })
+    entries.push(...added)
+    await this.save(entries, accountId)
+    return added
+  }
+
+  /**
+   * Outcome of queued entries: null once Google accepted the mutation, the error when Google
+   * rejected it, or undefined while it is still queued
+   */
+  takeOutcomes(entries: OutboxEntry[]): Array<GoogleApiError | null | undefined> {
+    return entries.map(({id}) => {
+      const outcome = this.outcomes.get(id)
+      this.outcomes.delete(id)
+      this.trackedEntries.delete(id)
+      this.quietEntries.delete(id)
+      return outcome
+    })
+  }
+
+  /**
+   * Id Google assigned to an item created with a local id, the local id while it is queued
+   */
+  resolveId(localId: string): string {
+    return this.resolvedIds.get(localId) || localId
+  }
+
+  /**
+   * The mutation with the local ids of items Google created replaced by their ids
+   */
+  resolveIds(mutation: OutboxMutation): OutboxMutation {
+    return resolveMutationIds(mutation, this.resolvedIds)
+  }
+
+  async clear(accountId?: string) {
+    const key = accountId || DEFAULT_OUTBOX_KEY
+    this.entries.delete(key)
+    if (!this.storageUri) return
+
+    try {
+      await vscode.workspace.fs.delete(this.getFileUri(key))
+    } catch (err) {
+      // Nothing queued
+    }
+  }
+
+  /**
+   * Send the queued mutations to Google in order. Stops at the first mutation that cannot be sent
+   * for now, e.g. because Google is unreachable (rethrowing the error), or whose conflict was postponed.
+   * Mutations Google rejects are dropped and reported. Resolves with the number of mutations sent.
+   */
+  replay(service: tasks_v1.Tasks, resolveConflict: ConflictResolver, accountId?: string): Promise<number> {
+    const key = accountId || DEFAULT_OUTBOX_KEY
+    const previous = this.replaying.get(key) || Promise.resolve(0)
+    const replay = previous
+      .catch(() => 0)
+      .then(() => this.replayEntries(service, resolveConflict, accountId))
+    this.replaying.set(key, replay)
+    return replay
+  }
+
+  private async replayEntries(
+    service: tasks_v1.Tasks,
+    resolveConflict: ConflictResolver,
+    accountId?: string
+  ): Promise<number> {
+    const entries = await this.get(accountId)
+    let sent = 0
+    while (entries.length) {
+      const group = takeBatchGroup(entries)
+      const auth = getServiceAuth(service)
+      if (group.length > 1 && auth) {
+        sent += await this.replayBatch(auth, group, entries, accountId)
+        continue
+      }
+
+      const entry = entries[0]
+      try {
+        const result = await replayEntry(service, entry, resolveConflict)
+        if (result === 'postponed') break
+        if (result && result.id && entry.mutation.kind.startsWith('insert')) {
+          const localId = (entry.mutation as {localId: string}).localId
+          this.resolvedIds.set(localId, result.id)
+          entries.slice(1).forEach(next => (next.mutation = resolveMutationIds(next.mutation, this.resolvedIds)))
+        }
+        rebaseEntries(entries.slice(1), entry.mutation, result)
+        sent++
+        this.recordOutcome(entry, null)
+      } catch (err) {
+        if (isPostponable(err)) {
+          entries.forEach(next => (next.deferred = true))
+          await this.save(entries, accountId)
+          throw err
+        }
+        this.reportRejections([entry], [err])
+      }
+      entries.shift()
+      await this.save(entries, accountId)
+    }
+    return sent
+  }
+
+  /**
+   * Send the group of entries at the head of the queue as one batch request
+   */
+  private async replayBatch(
+    auth: Parameters<typeof sendBatch>[0],
+    group: OutboxEntry[],
+    entries: OutboxEntry[],
+    accountId?: string
+  ): Promise<number> {
+    let results
+    try {
+      results = await sendBatch<SavedItem>(auth, group.map(({mutation}) => toBatchRequest(mutation)))
+    } catch (err) {
+      if (!isPostponable(err)) throw err
+      entries.forEach(next => (next.deferred = true))
+      await this.save(entries, accountId)
+      throw err
+    }
+
+    const kept: OutboxEntry[] = []
+    const rejected: OutboxEntry[] = []
+    const errors: GoogleApiError[] = []
+    let postponedError: GoogleApiError | undefined
+    results.forEach((result, index) => {
+      const entry = group[index]
+      if (result.ok) {
+        rebaseEntries(entries.slice(group.length), entry.mutation, result.data)
+        return this.recordOutcome(entry, null)
+      }
+      const error = result.error || classifyGoogleApiError(result)
+      if (isPostponable(error)) {
+        kept.push(entry)
+        postponedError = postponedError || error
+      } else {
+        rejected.push(entry)
+        errors.push(error)
+      }
+    })
+    this.reportRejections(rejected, errors)
+
+    entries.splice(0, group.length, ...kept)
+    if (postponedError) entries.forEach(next => (next.deferred = true))
+    await this.save(entries, accountId)
+    if (postponedError) throw postponedError
+    return group.length - rejected.length
+  }
+
+  private recordOutcome(entry: OutboxEntry, outcome: GoogleApiError | null) {
+    if (this.trackedEntries.has(entry.id)) this.outcomes.set(entry.id, outcome)
+  }
+
+  /**
+   * Tell the user about rejected mutations, unless the caller reports them itself
+   */
+  private reportRejections(entries: OutboxEntry[], errors: unknown[]) {
+    const reported = entries.filter((entry, index) => {
+      const error = classifyGoogleApiError(errors[index])
+      this.recordOutcome(entry, error)
+      return !this.quietEntries.has(entry.id)
+    })
+    if (reported.length === 1) {
+      showGoogleApiError(`Could not save changes to "${reported[0].label}"`, errors[entries.indexOf(reported[0])])
+    } else if (reported.length > 1) {
+      showGoogleApiError(`Could not save ${reported.length} changes`, errors[entries.indexOf(reported[0])])
+    }
+  }
+
+  private async save(entries: OutboxEntry[], accountId?: string) {
+    const key = accountId || DEFAULT_OUTBOX_KEY
+    this.entries.set(key, entries)
+    if (!this.storageUri) return
+
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageUri)
+      await vscode.workspace.fs.writeFile(this.getFileUri(key), Buffer.from(JSON.stringify(entries), 'utf8'))
+    } catch (err) {
+      console.error('[Outbox] Error writing outbox:', err)
+    }
+  }
+
+  private getFileUri(key: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri as vscode.Uri, `${key}.json`)
+  }
+}
+
+/**
+ * Whether the mutation should stay queued to be sent again later
+ */
+function isPostponable(err: unknown): boolean {
+  return isOfflineError(err) || isRetryable(err) || isInvalidGrantError(err)
+}
+
+/**
+ * Entries at the head of the queue that can be sent together in a batch: changes and deletions,
+ * without conflicts to check, each touching other tasks as the batch may apply them in any order.
+ * Moves are positioned relative to other tasks, so they are sent one at a time.
+ */
+function takeBatchGroup(entries: OutboxEntry[]): OutboxEntry[] {
+  const group: OutboxEntry[] = []
+  const touchedTasks = new Set<string>()
+  const touchedLists = new Set<string>()
+  const wholeLists = new Set<string>()
+  for (const entry of entries) {
+    const {mutation} = entry
+    if (group.length >= MAX_BATCH_SIZE || mutation.kind.startsWith('insert') || mutation.kind === 'moveTask') break
+    if (entry.deferred && entry.base) break
+
+    const params = mutation.params as {tasklist?: string; task?: string}
+    const taskListId = params.tasklist || ''
+    if (mutation.kind === 'patchTask' || mutation.kind === 'deleteTask') {
+      const taskKey = `${taskListId}/${params.task}`
+      if (touchedTasks.has(taskKey) || wholeLists.has(taskListId)) break
+      touchedTasks.add(taskKey)
+    } else {
+      if (touchedLists.has(taskListId)) break
+      wholeLists.add(taskListId)
+    }
+    touchedLists.add(taskListId)
+    group.push(entry)
+  }
+  return group
+}
+
+function toBatchRequest(mutation: OutboxMutation): BatchRequest {
+  const params = mutation.params as {tasklist?: string; task?: string}
+  const taskListPath = `/tasks/v1/users/@me/lists/${encodeURIComponent(params.tasklist || '')}`
+  const taskPath = `${taskListPath.replace('/users/@me', '')}/tasks/${encodeURIComponent(params.task || '')}`
+
+  switch (mutation.kind) {
+    case 'patchTaskList':
+      return {method: 'PATCH', path: taskListPath, body: mutation.params.requestBody}
+    case 'deleteTaskList':
+      return {method: 'DELETE', path: taskListPath}
+    case 'patchTask':
+      return {method: 'PATCH', path: taskPath, body: mutation.params.requestBody}
+    case 'deleteTask':
+      return {method: 'DELETE', path: taskPath}
+    case 'clearTasks':
+      return {method: 'POST', path: `${taskListPath.replace('/users/@me', '')}/clear`}
+    default:
+      throw new Error(`Cannot batch ${mutation.kind}`)
+  }
+}
+
+/**
+ * Send one mutation. Resolves with the task or task list Google returned, undefined when the
+ * mutation was dropped or Google returned nothing, or 'postponed' when the user did not decide
+ * on a conflict yet.
+ */
+async function replayEntry(
+  service: tasks_v1.Tasks,
+  entry: OutboxEntry,
+  resolveConflict: ConflictResolver
+): Promise<SavedItem | 'postponed' | undefined> {
+  const {mutation} = entry
+  // Only changes that waited offline can conflict with changes made elsewhere
+  if (entry.deferred && entry.base && (mutation.kind.startsWith('patch') || mutation.kind.startsWith('delete'))) {
+    const current = await getServerVersion(service, mutation)
+    if (!current) {
+      if (mutation.kind.startsWith('patch'))
+        vscode.window.showWarningMessage(
+          `"${entry.label}" was deleted in Google Tasks while you were offline. Your changes to it were discarded.`
+        )
+      return undefined
+    }
+    if (isConflicting(entry.base, current)) {
+      const resolution = await resolveConflict(entry)
+      if (!resolution) return 'postponed'
+      if (resolution === 'theirs') return undefined
+    }
+  }
+
+  switch (mutation.kind) {
+    case 'insertTaskList':
+      return (await callGoogleApi(() => service.tasklists.insert(mutation.params))).data
+    case 'patchTaskList':
+      return (await callGoogleApi(() => service.tasklists.patch(mutation.params))).data
+    case 'deleteTaskList':
+      await callGoogleApi(() => service.tasklists.delete(mutation.params))
+      return undefined
+    case 'insertTask':
+      return (await callGoogleApi(() => service.tasks.insert(mutation.params))).data
+    case 'patchTask':
+      return (await callGoogleApi(() => service.tasks.patch(mutation.params))).data
+    case 'deleteTask':
+      await callGoogleApi(() => service.tasks.delete(mutation.params))
+      return undefined
+    case 'moveTask':
+      return (await callGoogleApi(() => service.tasks.move(mutation.params))).data
+    case 'clearTasks':
+      await callGoogleApi(() => service.tasks.clear(mutation.params))
+      return undefined
+  }
+}
+
+/**
+ * Current version of the changed item on Google's side, undefined when it no longer exists
+ */
+async function getServerVersion(service: tasks_v1.Tasks, mutation: OutboxMutation): Promise<BaseVersion | undefined> {
+  try {
+    if (mutation.kind === 'patchTaskList' || mutation.kind === 'deleteTaskList') {
+      const {data} = await callGoogleApi(() => service.tasklists.get({tasklist: mutation.params.tasklist}))
+      return {etag: data.etag, updated: data.updated}
+    }
+    const params = mutation.params as tasks_v1.Params$Resource$Tasks$Get
+    const {data} = await callGoogleApi(() => service.tasks.get({tasklist: params.tasklist, task: params.task}))
+    return data.deleted ? undefined : {etag: data.etag, updated: data.updated}
+  } catch (err) {
+    if (err instanceof NotFoundError) return undefined
+    throw err
+  }
+}
+
+/**
+ * Make the version Google returned for a changed item the base of the entries still queued for
+ * it, so that changes made one after another offline do not conflict with each other
+ */
+function rebaseEntries(entries: OutboxEntry[], mutation: OutboxMutation, saved?: SavedItem) {
+  const key = getItemKey(mutation)
+  if (!key || !saved || !(saved.etag || saved.updated)) return
+  entries.forEach(entry => {
+    if (entry.base && getItemKey(entry.mutation) === key) entry.base = {etag: saved.etag, updated: saved.updated}
+  })
+}
+
+/**
+ * The existing task or task list the mutation changes, undefined for insertions and clearing
+ */
+function getItemKey(mutation: OutboxMutation): string | undefined {
+  const params = mutation.params as {tasklist?: string; task?: string}
+  switch (mutation.kind) {
+    case 'patchTaskList':
+    case 'deleteTaskList':
+      return `list:${params.tasklist}`
+    case 'patchTask':
+    case 'deleteTask':
+    case 'moveTask':
+      return `task:${params.tasklist}/${params.task}`
+    default:
+      return undefined
+  }
+}
+
+function isConflicting(base: BaseVersion, current: BaseVersion): boolean {
+  if (base.etag && current.etag) return base.etag !== current.etag
+  return Boolean(base.updated && current.updated && base.updated !== current.updated)
+}
+
+function describeMutation(
+  mutation: OutboxMutation,
+  cached?: CachedAccountTasks
+): {label: string; base?: BaseVersion} {
+  const params = mutation.params as {tasklist?: string; task?: string; requestBody?: {title?: string | null}}
+  const cachedList = cached && cached.taskLists.find(({taskList}) => taskList.id === params.tasklist)
+  const item = mutation.kind.endsWith('TaskList') || mutation.kind === 'clearTasks'
+    ? cachedList && cachedList.taskList
+    : cachedList && params.task ? cachedList.tasks[params.task] : undefined
+  const label = (item && item.title) || (params.requestBody && params.requestBody.title) || 'Untitled'
+  return {label, base: item ? {etag: item.etag, updated: item.updated} : undefined}
+}
+
+/**
+ * The mutation with the ids found in `resolvedIds` replaced by the ids they map to
+ */
+export function resolveMutationIds(mutation: OutboxMutation, resolvedIds: Map<string, string>): OutboxMutation {
+  const params: {[key: string]: unknown} = {...mutation.params}
+  ;['tasklist', 'task', 'parent', 'previous'].forEach(field => {
+    const id = params[field]
+    if (typeof id === 'string' && resolvedIds.has(id)) params[field] = resolvedIds.get(id)
+  })
+  return {...mutation, params} as OutboxMutation
+}
+
+/**
+ * Apply a mutation to a copy of the cached tasks, so the tree shows it before Google confirmed it
+ */
+export function applyMutation(cached: CachedAccountTasks, mutation: OutboxMutation) {
+  const now = new Date().toISOString()
+  const findList = (id?: string) => cached.taskLists.find(({taskList}) => taskList.id === id)
+
+  switch (mutation.kind) {
+    case 'insertTaskList': {
+      const taskList = {...mutation.params.requestBody, id: mutation.localId, updated: now}
+      cached.taskLists.push({taskList, tasks: {}})
+      break
+    }
+    case 'patchTaskList': {
+      const cachedList = findList(mutation.params.tasklist)
+      if (cachedList) Object.assign(cachedList.taskList, mutation.params.requestBody, {updated: now})
+      break
+    }
+    case 'deleteTaskList':
+      cached.taskLists = cached.taskLists.filter(({taskList}) => taskList.id !== mutation.params.tasklist)
+      break
+    case 'insertTask': {
+      const cachedList = findList(mutation.params.tasklist)
+      if (!cachedList) break
+      const {parent, previous} = mutation.params
+      const previousTask = previous ? cachedList.tasks[previous] : undefined
+      cachedList.tasks[mutation.localId] = {
+        status: 'needsAction',
+        ...mutation.params.requestBody,
+        id: mutation.localId,
+        parent,
+        // Right after the previous task, or first when there is none
+        position: previousTask && previousTask.position ? `${previousTask.position}0` : '0',
+        updated: now,
+      }
+      break
+    }
+    case 'patchTask': {
+      const cachedList = findList(mutation.params.tasklist)
+      const task = cachedList && mutation.params.task ? cachedList.tasks[mutation.params.task] : undefined
+      if (!task) break
+      const changes = mutation.params.requestBody || {}
+      Object.assign(task, changes, {updated: now})
+      if (changes.status === 'completed' && !changes.completed) task.completed = task.completed || now
+      if (changes.status === 'needsAction') task.completed = undefined
+      break
+    }
+    case 'deleteTask': {
+      const cachedList = findList(mutation.params.tasklist)
+      if (!cachedList || !mutation.params.task) break
+      // Google deletes the subtasks along with the task
+      const deleted = new Set([mutation.params.task])
+      Object.values(cachedList.tasks).forEach(task => {
+        if (task.id && task.parent && deleted.has(task.parent)) deleted.add(task.id)
+      })
+      deleted.forEach(taskId => delete cachedList.tasks[taskId])
+      break
+    }
+    case 'moveTask': {
+      const cachedList = findList(mutation.params.tasklist)
+      const task = cachedList && mutation.params.task ? cachedList.tasks[mutation.params.task] : undefined
+      if (!cachedList || !task) break
+      const {parent, previous} = mutation.params
+      const previousTask = previous ? cachedList.tasks[previous] : undefined
+      Object.assign(task, {
+        parent: parent || undefined,
+        position: previousTask && previousTask.position ? `${previousTask.position}0` : '0',
+        updated: now,
+      })
+      break
+    }
+    case 'clearTasks': {
+      const cachedList = findList(mutation.params.tasklist)
+      if (!cachedList) break
+      // Google hides the completed tasks of the list
+      Object.values(cachedList.tasks).forEach(task => {
+        if (task.status === 'completed') task.hidden = true
+      })
+      cachedList.clearedAt = now
+      break
+    }
+  }
+}
+
+export default new Outbox()
@@ -0,0 +1,16 @@
+'use strict'
+
+import {Credentials} from 'google-auth-library'
+
+export const TASKS_SCOPE = 'https://www.googleapis.com/auth/tasks'
+export const CALENDAR_SCOPE = 'https://www.googleapis.com/auth/calendar'
+export const EMAIL_SCOPE = 'https://www.googleapis.com/auth/userinfo.email'
+
+/**
+ * Whether the token grants calendar access. Tokens without a recorded scope predate
+ * Tasks-only authorization, which always included the calendar.
+ */
+export function hasCalendarScope(token: Credentials): boolean {
+  if (!token.scope) return true
+  return token.scope.split(' ').includes(CALENDAR_SCOPE)
+}
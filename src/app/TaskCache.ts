@@ -0,0 +1,92 @@
+'use strict'
+
+import * as vscode from 'vscode'
+import {tasks_v1} from 'googleapis'
+
+export interface CachedTaskList {
+  taskList: tasks_v1.Schema$TaskList
+  // Tasks of the list keyed by task id, including completed and hidden ones
+  tasks: {[taskId: string]: tasks_v1.Schema$Task}
+  // When the tasks of the list were last fetched (ISO date), to only fetch later changes
+  syncedAt?: string
+  // When the completed tasks of the list were last cleared (ISO date)
+  clearedAt?: string
+}
+
+export interface CachedAccountTasks {
+  // When the lists were last fetched from Google (ISO date)
+  syncedAt: string
+  taskLists: CachedTaskList[]
+}
+
+const DEFAULT_CACHE_KEY = 'default'
+
+/**
+ * Whether a completed task was removed from the Completed section by clearing its list. Google hides
+ * cleared tasks, but also tasks completed in its own apps, so the time of the clearing tells them apart.
+ */
+export function isClearedTask(task: tasks_v1.Schema$Task, cachedList: CachedTaskList): boolean {
+  if (task.status !== 'completed' || !cachedList.clearedAt) return false
+  return (task.completed || '') <= cachedList.clearedAt
+}
+
+/**
+ * In-memory model of the task lists and tasks of each account, as last seen on Google.
+ * It is persisted in the extension's global storage so it can be shown on startup and
+ * while Google cannot be reached.
+ */
+class TaskCache {
+  private storageUri?: vscode.Uri
+  private entries = new Map<string, CachedAccountTasks>()
+
+  register(extensionContext: vscode.ExtensionContext) {
+    this.storageUri = vscode.Uri.joinPath(extensionContext.globalStorageUri, 'cache')
+  }
+
+  async get(accountId?: string): Promise<CachedAccountTasks | undefined> {
+    const key = accountId || DEFAULT_CACHE_KEY
+    if (this.entries.has(key)) return this.entries.get(key)
+    if (!this.storageUri) return undefined
+
+    try {
+      const content = await vscode.workspace.fs.readFile(this.getFileUri(key))
+      const entry: CachedAccountTasks = JSON.parse(Buffer.from(content).toString('utf8'))
+      this.entries.set(key, entry)
+      return entry
+    } catch (err) {
+      // Nothing cached yet, or the cache file is unreadable
+      return undefined
+    }
+  }
+
+  async set(entry: CachedAccountTasks, accountId?: string) {
+    const key = accountId || DEFAULT_CACHE_KEY
+    this.entries.set(key, entry)
+    if (!this.storageUri) return
+
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageUri)
+      await vscode.workspace.fs.writeFile(this.getFileUri(key), Buffer.from(JSON.stringify(entry), 'utf8'))
+    } catch (err) {
+      console.error('[TaskCache] Error writing cache:', err)
+    }
+  }
+
+  async clear(accountId?: string) {
+    const key = accountId || DEFAULT_CACHE_KEY
+    this.entries.delete(key)
+    if (!this.storageUri) return
+
+    try {
+      await vscode.workspace.fs.delete(this.getFileUri(key))
+    } catch (err) {
+      // Nothing cached
+    }
+  }
+
+  private getFileUri(key: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri as vscode.Uri, `${key}.json`)
+  }
+}
+
+export default new TaskCache()
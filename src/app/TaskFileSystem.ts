@@ -0,0 +1,241 @@
+'use strict'
+
+import * as vscode from 'vscode'
+
+import {getActiveAccount} from './Accounts'
+import {CachedTaskList} from './TaskCache'
+import {ChecklistParseError, formatChecklist} from './TaskListMarkdown'
+import gTaskTreeProvider from './TreeDataProviders/GTask/GTask.TreeDataProvider'
+import {showGoogleApiError} from './utils/ApiErrorNotification'
+
+export const TASKS_SCHEME = 'gtasks'
+
+const NOTES_DIRECTORY = 'notes'
+const MARKDOWN_EXTENSION = '.md'
+
+type TaskFile =
+  | {kind: 'directory'}
+  | {kind: 'taskList'; accountId?: string; fileName: string}
+  | {kind: 'notes'; accountId?: string; taskListId: string; taskId: string}
+
+/**
+ * Exposes tasks as files of the `gtasks:` scheme, so they can be edited in a regular editor tab:
+ * - `gtasks://<account>/<list title>.md` is a task list as a Markdown checklist
+ * - `gtasks://<account>/notes/<list>/<task>/<title>.md` are the notes of a task
+ * Without an account, the URI refers to the active account, so `gtasks:/` can be added to the
+ * workspace as a folder of all lists.
+ */
+class TaskFileSystemProvider implements vscode.FileSystemProvider {
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>()
+  readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event
+  // Files and folders open in VS Code, reloaded when their tasks change
+  private watched = new Map<string, vscode.Uri>()
+
+  register(extensionContext: vscode.ExtensionContext) {
+    extensionContext.subscriptions.push(
+      vscode.workspace.registerFileSystemProvider(TASKS_SCHEME, this, {isCaseSensitive: true}),
+      gTaskTreeProvider.onDidChangeTreeData(() => this.fireChanged())
+    )
+  }
+
+  /**
+   * URI of the folder of all lists of the active account
+   */
+  getRootUri(): vscode.Uri {
+    return vscode.Uri.from({scheme: TASKS_SCHEME, path: '/'})
+  }
+
+  /**
+   * URI of the checklist of a task list, undefined when the list is unknown
+   */
+  async getTaskListUri(taskListId: string, accountId?: string): Promise<vscode.Uri | undefined> {
+    const files = getTaskListFiles(await gTaskTreeProvider.getTaskLists(accountId))
+    const file = Array.from(files.entries()).find(([, cachedList]) => cachedList.taskList.id === taskListId)
+    return file ? vscode.Uri.from({scheme: TASKS_SCHEME, authority: accountId || '', path: `/${file[0]}`}) : undefined
+  }
+
+  /**
+   * URI of the notes of a task, named after the task
+   */
+  getNotesUri(taskListId: string, taskId: string, title: string | null | undefined, accountId?: string): vscode.Uri {
+    const fileName = `${toFileName(title || '') || 'Notes'}${MARKDOWN_EXTENSION}`
+    const path = `/${NOTES_DIRECTORY}/${taskListId}/${taskId}/${fileName}`
+    return vscode.Uri.from({scheme: TASKS_SCHEME, authority: accountId || '', path})
+  }
+
+  watch(uri: vscode.Uri): vscode.Disposable {
+    const key = uri.toString()
+    this.watched.set(key, uri)
+    return new vscode.Disposable(() => this.watched.delete(key))
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const file = parseUri(uri)
+    switch (file.kind) {
+      case 'directory':
+        return {type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0}
+      case 'taskList': {
+        const cachedList = await this.findTaskList(uri, file.fileName, file.accountId)
+        const updated = [cachedList.taskList.updated, ...Object.values(cachedList.tasks).map(task => task.updated)]
+        return {
+          type: vscode.FileType.File,
+          ctime: 0,
+          mtime: Math.max(0, ...updated.map(date => (date ? Date.parse(date) : 0))),
+          size: Buffer.byteLength(formatChecklist(cachedList), 'utf8'),
+        }
+      }
+      case 'notes': {
+        const task = await this.findTask(uri, file.taskListId, file.taskId, file.accountId)
+        return {
+          type: vscode.FileType.File,
+          ctime: 0,
+          mtime: task.updated ? Date.parse(task.updated) : 0,
+          size: Buffer.byteLength(task.notes || '', 'utf8'),
+        }
+      }
+    }
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const file = parseUri(uri)
+    switch (file.kind) {
+      case 'directory':
+        throw vscode.FileSystemError.FileIsADirectory(uri)
+      case 'taskList':
+        return Buffer.from(formatChecklist(await this.findTaskList(uri, file.fileName, file.accountId)), 'utf8')
+      case 'notes': {
+        const task = await this.findTask(uri, file.taskListId, file.taskId, file.accountId)
+        return Buffer.from(task.notes || '', 'utf8')
+      }
+    }
+  }
+
+  async writeFile(uri: vscode.Uri, content: Uint8Array) {
+    const file = parseUri(uri)
+    const text = Buffer.from(content).toString('utf8')
+    switch (file.kind) {
+      case 'directory':
+        throw vscode.FileSystemError.FileIsADirectory(uri)
+      case 'taskList': {
+        const cachedList = await this.findTaskList(uri, file.fileName, file.accountId)
+        const title = cachedList.taskList.title || 'No Title'
+        let outcomes
+        try {
+          outcomes = await gTaskTreeProvider.saveChecklist(cachedList.taskList.id || '', text, file.accountId)
+        } catch (err) {
+          // Shown by VS Code as the reason the file could not be saved
+          if (err instanceof ChecklistParseError) throw vscode.FileSystemError.Unavailable(err.message)
+          throw err
+        }
+        const failed = outcomes.filter(outcome => outcome.status === 'failed')
+        if (failed.length) {
+          showGoogleApiError(`Could not save ${failed.length} of ${outcomes.length} changes to "${title}"`, failed[0].error)
+        }
+        break
+      }
+      case 'notes': {
+        const task = await this.findTask(uri, file.taskListId, file.taskId, file.accountId)
+        const outcome = await gTaskTreeProvider.patchTask(
+          {tasklist: file.taskListId, task: file.taskId, requestBody: {notes: text || null}},
+          file.accountId
+        )
+        if (outcome.status === 'failed') {
+          showGoogleApiError(`Could not save the notes of "${task.title || 'No Title'}"`, outcome.error)
+          throw vscode.FileSystemError.Unavailable(uri)
+        }
+        break
+      }
+    }
+    this._onDidChangeFile.fire([{type: vscode.FileChangeType.Changed, uri}])
+  }
+
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const file = parseUri(uri)
+    if (file.kind !== 'directory') throw vscode.FileSystemError.FileNotADirectory(uri)
+    // The notes of tasks are only opened from the tree
+    if (uri.path !== '/') return []
+    const files = getTaskListFiles(await gTaskTreeProvider.getTaskLists(getAccountId(uri)))
+    return Array.from(files.keys()).map((fileName): [string, vscode.FileType] => [fileName, vscode.FileType.File])
+  }
+
+  createDirectory(uri: vscode.Uri) {
+    throw vscode.FileSystemError.NoPermissions(uri)
+  }
+
+  delete(uri: vscode.Uri) {
+    throw vscode.FileSystemError.NoPermissions(uri)
+  }
+
+  rename(oldUri: vscode.Uri) {
+    throw vscode.FileSystemError.NoPermissions(oldUri)
+  }
+
+  private async findTaskList(uri: vscode.Uri, fileName: string, accountId?: string): Promise<CachedTaskList> {
+    const cachedList = getTaskListFiles(await gTaskTreeProvider.getTaskLists(accountId)).get(fileName)
+    if (!cachedList) throw vscode.FileSystemError.FileNotFound(uri)
+    return cachedList
+  }
+
+  private async findTask(uri: vscode.Uri, taskListId: string, taskId: string, accountId?: string) {
+    const taskLists = await gTaskTreeProvider.getTaskLists(accountId)
+    const cachedList = taskLists.find(({taskList}) => taskList.id === taskListId)
+    const task = cachedList && cachedList.tasks[taskId]
+    if (!task || task.deleted) throw vscode.FileSystemError.FileNotFound(uri)
+    return task
+  }
+
+  private fireChanged() {
+    const events = Array.from(this.watched.values()).map(uri => ({type: vscode.FileChangeType.Changed, uri}))
+    if (events.length) this._onDidChangeFile.fire(events)
+  }
+}
+
+/**
+ * What the URI refers to; unknown paths are reported as missing files
+ */
+function parseUri(uri: vscode.Uri): TaskFile {
+  const segments = uri.path.split('/').filter(Boolean)
+  const accountId = getAccountId(uri)
+  if (!segments.length) return {kind: 'directory'}
+  if (segments[0] === NOTES_DIRECTORY) {
+    if (segments.length <= 3) return {kind: 'directory'}
+    if (segments.length === 4) return {kind: 'notes', accountId, taskListId: segments[1], taskId: segments[2]}
+  } else if (segments.length === 1 && segments[0].endsWith(MARKDOWN_EXTENSION)) {
+    return {kind: 'taskList', accountId, fileName: segments[0]}
+  }
+  throw vscode.FileSystemError.FileNotFound(uri)
+}
+
+function getAccountId(uri: vscode.Uri): string | undefined {
+  if (uri.authority) return uri.authority
+  const account = getActiveAccount()
+  return account && account.id
+}
+
+/**
+ * File name of each list, numbered when several lists have the same title
+ */
+function getTaskListFiles(taskLists: CachedTaskList[]): Map<string, CachedTaskList> {
+  const files = new Map<string, CachedTaskList>()
+  taskLists.forEach(cachedList => {
+    const name = toFileName(cachedList.taskList.title || '') || 'No Title'
+    let fileName = `${name}${MARKDOWN_EXTENSION}`
+    for (let number = 2; files.has(fileName); number++) {
+      fileName = `${name} (${number})${MARKDOWN_EXTENSION}`
+    }
+    files.set(fileName, cachedList)
+  })
+  return files
+}
+
+/**
+ * Title usable as a file name
+ */
+function toFileName(title: string): string {
+  return title
+    .replace(/[\\/:*?"<>|\r\n]+/g, ' ')
+    .trim()
+    .slice(0, 80)
+}
+
+export default new TaskFileSystemProvider()
@@ -0,0 +1,227 @@
+'use strict'
+
+import {tasks_v1} from 'googleapis'
+
+import {CachedTaskList} from './TaskCache'
+import {OutboxMutation} from './Outbox'
+
+/**
+ * A task of a Markdown checklist, e.g. `- [x] Buy milk <!-- id:abc -->`
+ */
+export interface ChecklistItem {
+  // Task the item stands for, undefined for a task added in the document
+  id?: string
+  title: string
+  completed: boolean
+  // Line of the item in the document, starting at 1
+  line: number
+  subtasks: ChecklistItem[]
+}
+
+/**
+ * The document is not a checklist the tasks can be read from
+ */
+export class ChecklistParseError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`Line ${line}: ${message}`)
+    this.name = 'ChecklistParseError'
+  }
+}
+
+const ITEM_PATTERN = /^([ \t]*)[-*] \[([ xX])\](?: (.*?))?\s*$/
+const ID_PATTERN = /^(.*?)\s*<!--\s*id:(\S+)\s*-->$/
+
+/**
+ * The visible tasks of the list as a checklist, subtasks indented below their parent.
+ * Each item ends with the id of its task, so the document can be compared with the tasks once saved.
+ */
+export function formatChecklist(cachedList: CachedTaskList): string {
+  const formatItem = (task: tasks_v1.Schema$Task, indent: string) =>
+    `${indent}- [${task.status === 'completed' ? 'x' : ' '}] ${formatTitle(task.title)} <!-- id:${task.id} -->\n`
+
+  return getChildren(cachedList, undefined)
+    .map(task => formatItem(task, '') + getChildren(cachedList, task.id).map(subtask => formatItem(subtask, '  ')).join(''))
+    .join('')
+}
+
+/**
+ * Read the items of a checklist. Blank lines are ignored; any other line must be an item, and
+ * only one level of subtasks is supported.
+ */
+export function parseChecklist(text: string): ChecklistItem[] {
+  const items: ChecklistItem[] = []
+  let subtaskIndent: number | undefined
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    const line = index + 1
+    if (!content.trim()) return
+
+    const match = ITEM_PATTERN.exec(content)
+    if (!match) throw new ChecklistParseError(`expected a task like "- [ ] Title", found "${content.trim()}"`, line)
+    const [, indentation, mark, text = ''] = match
+    const idMatch = ID_PATTERN.exec(text)
+    const title = (idMatch ? idMatch[1] : text).trim()
+    const id = idMatch ? idMatch[2] : undefined
+    if (!title && !id) throw new ChecklistParseError('a task needs a title', line)
+    const item: ChecklistItem = {id, title, completed: mark !== ' ', line, subtasks: []}
+
+    const indent = indentation.replace(/\t/g, '  ').length
+    if (!indent) {
+      items.push(item)
+      subtaskIndent = undefined
+      return
+    }
+    const parent = items[items.length - 1]
+    if (!parent) throw new ChecklistParseError('a subtask needs a task above it', line)
+    if (subtaskIndent === undefined) subtaskIndent = indent
+    if (indent > subtaskIndent) throw new ChecklistParseError('only one level of subtasks is supported', line)
+    parent.subtasks.push(item)
+  })
+
+  return items
+}
+
+/**
+ * Mutations that turn the visible tasks of the list into the checklist items. Items whose task is
+ * not in the list, or that repeat a task, are added as new tasks. `createId` makes the local ids
+ * of added tasks.
+ */
+export function diffChecklist(
+  cachedList: CachedTaskList,
+  items: ChecklistItem[],
+  createId: () => string
+): OutboxMutation[] {
+  const tasklist = cachedList.taskList.id || undefined
+  const tasks = getVisibleTasks(cachedList)
+  const kept = new Set<string>()
+  // Items standing for an existing task, the first of each task
+  const existing = new Set<ChecklistItem>()
+  items.forEach(item =>
+    [item, ...item.subtasks].forEach(entry => {
+      if (!entry.id || !tasks[entry.id] || kept.has(entry.id)) return
+      kept.add(entry.id)
+      existing.add(entry)
+    })
+  )
+  // Ids of the tasks of the items, local ids for the added ones
+  const ids = new Map<ChecklistItem, string>()
+
+  const deleted = Object.values(tasks).filter(task => task.id && !kept.has(task.id))
+  const deletedIds = new Set(deleted.map(task => task.id))
+  // Google deletes the subtasks along with their parent, which is deleted last so that the subtasks
+  // kept are moved out first
+  const deleteMutation = (task: tasks_v1.Schema$Task): OutboxMutation => ({
+    kind: 'deleteTask',
+    params: {tasklist, task: task.id || undefined},
+  })
+  const mutations: OutboxMutation[] = deleted
+    .filter(task => task.parent && !deletedIds.has(task.parent))
+    .map(deleteMutation)
+
+  const placeGroup = (group: ChecklistItem[], parent?: string) => {
+    const unmoved = getUnmovedItems(cachedList, group.filter(item => existing.has(item)), parent)
+    let previous: string | undefined
+    group.forEach(item => {
+      const task = existing.has(item) && item.id ? tasks[item.id] : undefined
+      if (!task) {
+        const localId = createId()
+        const requestBody: tasks_v1.Schema$Task = {title: item.title, status: item.completed ? 'completed' : 'needsAction'}
+        mutations.push({kind: 'insertTask', params: {tasklist, parent, previous, requestBody}, localId})
+        ids.set(item, localId)
+        previous = localId
+        return
+      }
+
+      const taskId = task.id || ''
+      ids.set(item, taskId)
+      if (!unmoved.has(item)) mutations.push({kind: 'moveTask', params: {tasklist, task: taskId, parent, previous}})
+      const requestBody = getChanges(task, item)
+      if (requestBody) mutations.push({kind: 'patchTask', params: {tasklist, task: taskId, requestBody}})
+      previous = taskId
+    })
+  }
+
+  placeGroup(items)
+  items.forEach(item => {
+    if (item.subtasks.length) placeGroup(item.subtasks, ids.get(item))
+  })
+
+  mutations.push(...deleted.filter(task => !task.parent).map(deleteMutation))
+  return mutations
+}
+
+/**
+ * Items of a group already under `parent` in the same order, which do not need to be moved:
+ * the longest run of them that keeps the order of their tasks
+ */
+function getUnmovedItems(cachedList: CachedTaskList, group: ChecklistItem[], parent?: string): Set<ChecklistItem> {
+  const siblings = getChildren(cachedList, parent).map(task => task.id)
+  const candidates = group
+    .map(item => ({item, index: siblings.indexOf(item.id)}))
+    .filter(({index}) => index >= 0)
+
+  // Longest increasing subsequence of the current indexes
+  const lengths: number[] = []
+  const previous: number[] = []
+  candidates.forEach(({index}, i) => {
+    lengths[i] = 1
+    previous[i] = -1
+    for (let j = 0; j < i; j++) {
+      if (candidates[j].index < index && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1
+        previous[i] = j
+      }
+    }
+  })
+  const unmoved = new Set<ChecklistItem>()
+  let last = lengths.reduce((best, length, i) => (best < 0 || length > lengths[best] ? i : best), -1)
+  while (last >= 0) {
+    unmoved.add(candidates[last].item)
+    last = previous[last]
+  }
+  return unmoved
+}
+
+/**
+ * Changes of the title and status of the task, undefined when there are none
+ */
+function getChanges(task: tasks_v1.Schema$Task, item: ChecklistItem): tasks_v1.Schema$Task | undefined {
+  const changes: tasks_v1.Schema$Task = {}
+  if (item.title && item.title !== formatTitle(task.title)) changes.title = item.title
+  if (item.completed !== (task.status === 'completed')) {
+    Object.assign(changes, item.completed ? {status: 'completed'} : {status: 'needsAction', completed: null, hidden: false})
+  }
+  return Object.keys(changes).length ? changes : undefined
+}
+
+/**
+ * Tasks that are neither deleted nor hidden, nor under a hidden task
+ */
+function getVisibleTasks(cachedList: CachedTaskList): {[taskId: string]: tasks_v1.Schema$Task} {
+  const isVisible = (task?: tasks_v1.Schema$Task) => Boolean(task && task.id && !task.deleted && !task.hidden)
+  const tasks: {[taskId: string]: tasks_v1.Schema$Task} = {}
+  Object.values(cachedList.tasks).forEach(task => {
+    if (isVisible(task) && (!task.parent || isVisible(cachedList.tasks[task.parent]))) tasks[task.id as string] = task
+  })
+  return tasks
+}
+
+/**
+ * Visible tasks under `parentId`, or the top-level ones without it, in their order
+ */
+function getChildren(cachedList: CachedTaskList, parentId?: string | null): tasks_v1.Schema$Task[] {
+  return Object.values(getVisibleTasks(cachedList))
+    .filter(task => (task.parent || undefined) === (parentId || undefined))
+    .sort((a, b) => {
+      const positionA = a.position || ''
+      const positionB = b.position || ''
+      return positionA > positionB ? 1 : positionA < positionB ? -1 : 0
+    })
+}
+
+/**
+ * Title on a single line, as it appears in the checklist
+ */
+function formatTitle(title?: string | null): string {
+  return (title || '').replace(/\s+/g, ' ').trim()
+}
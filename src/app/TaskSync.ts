@@ -0,0 +1,117 @@
+'use strict'
+
+import {tasks_v1} from 'googleapis'
+
+import {CachedAccountTasks, CachedTaskList} from './TaskCache'
+import {callGoogleApi} from './GoogleApi'
+import {getServiceAuth, sendBatch} from './Batch'
+import {fetchAllPages, MAX_TASK_LISTS_PAGE_SIZE, MAX_TASKS_PAGE_SIZE} from './utils/Pagination'
+
+// Tasks changed this long before the previous sync are fetched again, in case the clocks differ
+const CLOCK_SKEW_MARGIN = 60 * 1000
+
+interface TasksQuery {
+  showCompleted: boolean
+  showHidden: boolean
+  showDeleted?: boolean
+  updatedMin?: string
+  maxResults: number
+}
+
+/**
+ * Bring the task lists of an account up to date. Lists synced before only fetch the tasks
+ * changed since then (including deleted ones), which are merged into the previous model.
+ * Lists that are new, or were never synced, are fetched in full.
+ */
+export async function syncAccountTasks(
+  service: tasks_v1.Tasks,
+  previous?: CachedAccountTasks
+): Promise<CachedAccountTasks> {
+  const syncedAt = new Date().toISOString()
+  const lists = await fetchAllPages(pageToken =>
+    callGoogleApi(() => service.tasklists.list({maxResults: MAX_TASK_LISTS_PAGE_SIZE, pageToken}))
+  )
+  const previousLists = lists.map(taskList => {
+    const previousList = previous && previous.taskLists.find(cached => cached.taskList.id === taskList.id)
+    return previousList && previousList.syncedAt ? previousList : undefined
+  })
+  const queries = previousLists.map(previousList => {
+    const query: TasksQuery = {showCompleted: true, showHidden: true, maxResults: MAX_TASKS_PAGE_SIZE}
+    if (!previousList) return query
+    const updatedMin = new Date(Date.parse(previousList.syncedAt as string) - CLOCK_SKEW_MARGIN).toISOString()
+    return {...query, updatedMin, showDeleted: true}
+  })
+
+  const fetchedTasks = await fetchTasksOfLists(service, lists.map(taskList => taskList.id || ''), queries)
+  const taskLists = lists.map((taskList, index) => {
+    const previousList = previousLists[index]
+    const tasks: CachedTaskList['tasks'] = previousList ? {...previousList.tasks} : {}
+    fetchedTasks[index].forEach(task => {
+      if (!task.id) return
+      if (task.deleted) delete tasks[task.id]
+      else tasks[task.id] = task
+    })
+    return {taskList, tasks, syncedAt, clearedAt: previousList && previousList.clearedAt}
+  })
+  return {syncedAt, taskLists}
+}
+
+/**
+ * Tasks of each list matching its query. The first page of every list is fetched in a
+ * single batch request; lists with more tasks then fetch their other pages one by one.
+ */
+async function fetchTasksOfLists(
+  service: tasks_v1.Tasks,
+  taskListIds: string[],
+  queries: TasksQuery[]
+): Promise<tasks_v1.Schema$Task[][]> {
+  const fetchPages = (index: number, firstPageToken?: string) =>
+    fetchAllPages(
+      pageToken => callGoogleApi(() => service.tasks.list({tasklist: taskListIds[index], ...queries[index], pageToken})),
+      firstPageToken
+    )
+
+  const auth = getServiceAuth(service)
+  if (!auth || taskListIds.length < 2) return Promise.all(taskListIds.map((_, index) => fetchPages(index)))
+
+  const firstPages = await sendBatch<tasks_v1.Schema$Tasks>(
+    auth,
+    taskListIds.map((taskListId, index) => ({
+      method: 'GET',
+      path: `/tasks/v1/lists/${encodeURIComponent(taskListId)}/tasks`,
+      query: {...queries[index]},
+    }))
+  )
+  return Promise.all(
+    firstPages.map(async (result, index) => {
+      if (!result.ok) throw result.error
+      const page = result.data || {}
+      const items = page.items || []
+      return page.nextPageToken ? [...items, ...(await fetchPages(index, page.nextPageToken))] : items
+    })
+  )
+}
+
+/**
+ * Ids of the task lists whose title or tasks differ between two syncs, or undefined
+ * when task lists were added, removed or reordered
+ */
+export function findChangedTaskLists(previous: CachedAccountTasks, current: CachedAccountTasks): string[] | undefined {
+  const listIds = (entry: CachedAccountTasks) => entry.taskLists.map(({taskList}) => taskList.id).join('\n')
+  if (listIds(previous) !== listIds(current)) return undefined
+
+  return current.taskLists
+    .filter((cachedList, index) => !isSameTaskList(previous.taskLists[index], cachedList))
+    .map(({taskList}) => taskList.id || '')
+}
+
+function isSameTaskList(previous: CachedTaskList, current: CachedTaskList): boolean {
+  if (previous.taskList.title !== current.taskList.title) return false
+  const taskIds = Object.keys(current.tasks)
+  if (taskIds.length !== Object.keys(previous.tasks).length) return false
+  return taskIds.every(taskId => {
+    const previousTask = previous.tasks[taskId]
+    const task = current.tasks[taskId]
+    return Boolean(previousTask) && previousTask.etag === task.etag && previousTask.updated === task.updated
+  })
+}
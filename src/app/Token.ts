@@ -2,37 +2,107 @@
 
 import * as fs from 'fs'
 import * as path from 'path'
+import * as vscode from 'vscode'
 import {Credentials} from 'google-auth-library'
 import {RootPath} from '../RootPath'
 
-function getTokenPath(): string {
+const TOKEN_SECRET_KEY = 'googleTasks.token'
+
+let secrets: vscode.SecretStorage | undefined
+
+/**
+ * Back the token store with the extension's SecretStorage
+ */
+export function registerTokenStorage(extensionContext: vscode.ExtensionContext) {
+  secrets = extensionContext.secrets
+}
+
+function getSecretStorage(): vscode.SecretStorage {
+  if (!secrets) throw new Error('Token storage is not initialized')
+  return secrets
+}
+
+function getTokenKey(accountId: string): string {
+  return `${TOKEN_SECRET_KEY}.${accountId}`
+}
+
+function getLegacyTokenPath(): string {
   return path.join(RootPath.path, 'resources', 'token.json')
 }
 
-export function storeToken(token: Credentials) {
+/**
+ * Remove and return the single-account token kept by earlier versions, either in
+ * `resources/token.json` or under the un-keyed secret
+ */
+export async function takeLegacyToken(): Promise<Credentials | undefined> {
+  const legacyTokenPath = getLegacyTokenPath()
+  try {
+    if (fs.existsSync(legacyTokenPath)) {
+      const token: Credentials = JSON.parse(fs.readFileSync(legacyTokenPath).toString())
+      fs.unlinkSync(legacyTokenPath)
+      return token
+    }
+    const token = await getSecretStorage().get(TOKEN_SECRET_KEY)
+    if (!token) return undefined
+    await getSecretStorage().delete(TOKEN_SECRET_KEY)
+    return JSON.parse(token)
+  } catch (err) {
+    console.error('[Token] Error migrating legacy token:', err)
+    return undefined
+  }
+}
+
+export async function storeToken(token: Credentials, accountId: string) {
   try {
-    fs.writeFileSync(getTokenPath(), JSON.stringify(token))
+    await getSecretStorage().store(getTokenKey(accountId), JSON.stringify(token))
   } catch (err) {
     console.error(err)
     throw new Error('Error storing access token')
   }
 }
 
-export function getStoredToken(): Credentials {
+export async function getStoredToken(accountId?: string): Promise<Credentials> {
+  if (!accountId) throw new Error('Token not found')
+
+  let token: string | undefined
+  try {
+    token = await getSecretStorage().get(getTokenKey(accountId))
+  } catch (err) {
+    console.error(err)
+    throw new Error('Error getting stored Google token')
+  }
+  if (!token) throw new Error('Token not found')
+
   try {
-    return JSON.parse(fs.readFileSync(getTokenPath()).toString())
+    return JSON.parse(token)
   } catch (err) {
-    if (err.code === 'ENOENT') throw new Error('Token not found')
     throw new Error('Error getting stored Google token')
   }
 }
 
-export function removeToken(): boolean {
+export async function removeToken(accountId: string): Promise<boolean> {
   try {
-    fs.unlinkSync(getTokenPath())
+    await getSecretStorage().delete(getTokenKey(accountId))
     return true
   } catch (err) {
     console.error(err)
     throw new Error('Error removing access token')
   }
 }
+
+/**
+ * Merge credentials issued by a token refresh into the stored token.
+ * Google omits the refresh token from refresh responses, so the stored one is kept.
+ */
+export async function updateStoredToken(tokens: Credentials, accountId: string) {
+  let storedToken: Credentials = {}
+  try {
+    storedToken = await getStoredToken(accountId)
+  } catch (err) {
+    // Nothing stored yet for this account
+  }
+  await storeToken(
+    {...storedToken, ...tokens, refresh_token: tokens.refresh_token || storedToken.refresh_token},
+    accountId
+  )
+}
@@ -0,0 +1,47 @@
+'use strict'
+
+import * as vscode from 'vscode'
+
+import {AccountProfile, getActiveAccount} from './Accounts'
+import {removeToken} from './Token'
+
+export {isInvalidGrantError} from './GoogleApi'
+
+const handlingRevocation = new Set<string>()
+
+/**
+ * Forget the revoked token of the account (the active one by default). When it is
+ * the active account, the view goes back to the authorization welcome content.
+ */
+export async function handleRevokedToken(account: AccountProfile | undefined = getActiveAccount()) {
+  const accountId = account ? account.id : ''
+  if (handlingRevocation.has(accountId)) return
+  handlingRevocation.add(accountId)
+  try {
+    if (account) {
+      try {
+        await removeToken(account.id)
+      } catch (err) {
+        console.error('[Token] Error removing revoked token:', err)
+      }
+    }
+
+    const activeAccount = getActiveAccount()
+    if (!activeAccount || !account || activeAccount.id === account.id) {
+      await vscode.commands.executeCommand('setContext', 'GoogleUserTokenExists', false)
+      await vscode.commands.executeCommand('setContext', 'GoogleTokenRevoked', true)
+    }
+
+    const accountName = account ? ` for ${account.name}` : ''
+    vscode.window
+      .showWarningMessage(
+        `Your Google authorization${accountName} has expired or was revoked. Please authorize again.`,
+        'Authorize Google'
+      )
+      .then(action => {
+        if (action === 'Authorize Google') vscode.commands.executeCommand('googleTasks.initUserGAuth')
+      })
+  } finally {
+    handlingRevocation.delete(accountId)
+  }
+}
@@ -1,24 +1,48 @@
 'use strict'
 
 import * as vscode from 'vscode'
-import {OAuth2Client} from 'googleapis-common'
 
-import gTaskTreeProvider from './TreeDataProviders/GTask/GTask.TreeDataProvider'
+import gTaskTreeProvider, {GTaskTreeItem, SyncStatus} from './TreeDataProviders/GTask/GTask.TreeDataProvider'
+import {GTask} from './TreeDataProviders/GTask/GTask.treeItem'
+import gTaskDragAndDropController from './TreeDataProviders/GTask/GTask.DragAndDropController'
 import getOAuthClient from './OAuthClient'
 import {getStoredToken} from './Token'
+import {AccountProfile, getAccounts, getActiveAccount, isShowingAllAccounts} from './Accounts'
 
-export default function loadTreeData() {
+let treeView: vscode.TreeView<GTaskTreeItem> | undefined
+
+// Offline indicator shown above the tasks while they come from the cache
+gTaskTreeProvider.onDidChangeSyncStatus(status => {
+  if (treeView) treeView.message = getSyncStatusMessage(status)
+})
+
+function getSyncStatusMessage(status: SyncStatus): string | undefined {
+  if (!status.offline) return undefined
+  if (!status.syncedAt) return 'Offline'
+  return `Offline · last synced ${new Date(status.syncedAt).toLocaleString()}`
+}
+
+export default async function loadTreeData() {
   try {
-    const oAuth2Client = getOAuthClient()
-    const token = getStoredToken()
+    const account = getActiveAccount()
+    const oAuth2Client = getOAuthClient(account && account.id)
+    const token = await getStoredToken(account && account.id)
     oAuth2Client.setCredentials(token)
-    attachTreeProvider(oAuth2Client)
+    gTaskTreeProvider.setOAuthClient(oAuth2Client, account)
+    gTaskTreeProvider.setShowAllAccounts(isShowingAllAccounts())
+    if (isShowingAllAccounts()) await attachOtherAccounts(account)
+    attachTreeProvider(account)
     vscode.commands.executeCommand('setContext', 'GoogleUserTokenExists', true)
+    vscode.commands.executeCommand('setContext', 'GoogleTokenRevoked', false)
   } catch (err) {
     if (err.message === 'Token not found') {
       vscode.window.showInformationMessage('Please authorize with Google to continue')
     } else if (err.message === 'Credentials not found') {
-      vscode.window.showErrorMessage('Error getting credentials. Please report to the developers.')
+      vscode.window
+        .showErrorMessage('OAuth client credentials not found.', 'Configure Client Credentials')
+        .then(action => {
+          if (action) vscode.commands.executeCommand('googleTasks.configureClientCredentials')
+        })
     } else {
       console.error(err)
       vscode.window.showErrorMessage(
@@ -28,8 +52,50 @@ export default function loadTreeData() {
   }
 }
 
-async function attachTreeProvider(oAuth2Client: OAuth2Client) {
-  gTaskTreeProvider.setOAuthClient(oAuth2Client)
-  vscode.window.registerTreeDataProvider('googleTasks', gTaskTreeProvider)
+async function attachOtherAccounts(activeAccount?: AccountProfile) {
+  for (const account of getAccounts()) {
+    if (activeAccount && account.id === activeAccount.id) continue
+    try {
+      const oAuth2Client = getOAuthClient(account.id)
+      oAuth2Client.setCredentials(await getStoredToken(account.id))
+      gTaskTreeProvider.addAccountOAuthClient(oAuth2Client, account)
+    } catch (err) {
+      console.log(`[Accounts] Skipping ${account.name}:`, err.message)
+    }
+  }
+}
+
+function attachTreeProvider(account?: AccountProfile) {
+  if (treeView) treeView.dispose()
+  treeView = vscode.window.createTreeView('googleTasks', {
+    treeDataProvider: gTaskTreeProvider,
+    canSelectMany: true,
+    dragAndDropController: gTaskDragAndDropController,
+  })
+  // Account indicator in the view title
+  treeView.description = isShowingAllAccounts() ? 'All Accounts' : account ? account.name : undefined
+  treeView.message = getSyncStatusMessage(gTaskTreeProvider.getSyncStatus())
+  // Space toggles the completion of selected tasks, and keeps expanding and collapsing other items
+  treeView.onDidChangeSelection(({selection}) => {
+    const tasksSelected = selection.length > 0 && selection.every(item => item instanceof GTask)
+    vscode.commands.executeCommand('setContext', 'TaskSelected', tasksSelected)
+  })
+  gTaskTreeProvider.refresh()
   vscode.commands.executeCommand('setContext', 'HideCompleted', true)
 }
+
+/**
+ * Items selected in the tasks tree view
+ */
+export function getTreeSelection(): readonly GTaskTreeItem[] {
+  return treeView ? treeView.selection : []
+}
+
+/**
+ * Release the tasks tree view so another provider can take over the view
+ */
+export function disposeTreeView() {
+  if (treeView) treeView.dispose()
+  treeView = undefined
+  vscode.commands.executeCommand('setContext', 'TaskSelected', false)
+}
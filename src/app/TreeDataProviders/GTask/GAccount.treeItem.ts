@@ -0,0 +1,22 @@
+import * as vscode from 'vscode'
+
+import {AccountProfile} from '../../Accounts'
+
+export class GAccount extends vscode.TreeItem {
+  contextValue = 'GAccount'
+
+  constructor(public account: AccountProfile) {
+    super(account.name, vscode.TreeItemCollapsibleState.Expanded)
+    this.iconPath = new vscode.ThemeIcon('account')
+  }
+
+  // Overrides
+  get tooltip(): string {
+    return this.account.email || this.account.name
+  }
+
+  // Overrides
+  get description(): string {
+    return this.account.email && this.account.email !== this.account.name ? this.account.email : ''
+  }
+}
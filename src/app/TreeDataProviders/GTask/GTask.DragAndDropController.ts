@@ -0,0 +1,122 @@
+'use strict'
+
+import * as vscode from 'vscode'
+
+import gTaskTreeProvider, { GTaskTreeItem, MutationOutcome } from './GTask.TreeDataProvider'
+import { GTaskList } from './GTaskList.treeItem'
+import { GTask } from './GTask.treeItem'
+import { showGoogleApiError } from '../../utils/ApiErrorNotification'
+import undoManager from '../../UndoManager'
+
+// Mime type VS Code gives the items dragged within the googleTasks view
+const TASKS_MIME_TYPE = 'application/vnd.code.tree.googletasks'
+
+interface DropPosition {
+  taskListId: string
+  parent?: string
+  previous?: string
+}
+
+/**
+ * Drag tasks to reorder them, nest them under another task or move them to another list.
+ * Dropped on a list, tasks go to the top of it; dropped on a task, they go right below it,
+ * or become its subtasks.
+ */
+class GTaskDragAndDropController implements vscode.TreeDragAndDropController<GTaskTreeItem> {
+  readonly dragMimeTypes = [TASKS_MIME_TYPE]
+  readonly dropMimeTypes = [TASKS_MIME_TYPE]
+
+  handleDrag(source: readonly GTaskTreeItem[], dataTransfer: vscode.DataTransfer) {
+    const tasks = source.filter((item): item is GTask => item instanceof GTask && Boolean(item.task.id))
+    if (tasks.length) dataTransfer.set(TASKS_MIME_TYPE, new vscode.DataTransferItem(tasks))
+  }
+
+  async handleDrop(target: GTaskTreeItem | undefined, dataTransfer: vscode.DataTransfer) {
+    const item = dataTransfer.get(TASKS_MIME_TYPE)
+    if (!item || !target) return
+    const dragged: GTask[] = item.value
+    // Subtasks whose parent is dragged too move along with it
+    const draggedIds = new Set(dragged.map(({ task }) => task.id))
+    const tasks = dragged.filter(({ task }) => !task.parent || !draggedIds.has(task.parent))
+    if (!tasks.length || (target instanceof GTask && draggedIds.has(target.task.id))) return
+
+    const accountId = target instanceof GTask || target instanceof GTaskList ? target.accountId : undefined
+    if (tasks.some(task => task.accountId !== accountId)) {
+      vscode.window.showErrorMessage('Tasks can only be moved between lists of the same account.')
+      return
+    }
+
+    const position = await getDropPosition(target, tasks)
+    if (!position) return
+    if (position.parent && (await hasSubtasks(tasks))) {
+      vscode.window.showErrorMessage('Tasks with subtasks cannot become subtasks themselves.')
+      return
+    }
+
+    const outcomes = await moveTasks(tasks, position, accountId)
+    const failed = outcomes.filter(outcome => outcome.status === 'failed')
+    if (failed.length) {
+      const action = tasks.length > 1 ? `Could not move ${failed.length} of ${tasks.length} tasks` : 'Could not move the task'
+      showGoogleApiError(action, failed[0].error)
+    }
+  }
+}
+
+/**
+ * Where the dropped tasks go, undefined when they cannot be dropped on the target
+ */
+async function getDropPosition(target: GTaskTreeItem, tasks: GTask[]): Promise<DropPosition | undefined> {
+  if (target instanceof GTaskList) return target.taskList.id ? { taskListId: target.taskList.id } : undefined
+  if (!(target instanceof GTask) || !target.task.id) return undefined
+
+  const below = { taskListId: target.taskListId, parent: target.task.parent || undefined, previous: target.task.id }
+  // Only one level of subtasks is supported
+  if (target.task.parent) return below
+
+  const title = target.task.title || 'No Title'
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: `$(arrow-down) Move Below "${title}"`, position: below },
+      {
+        label: `$(list-tree) Make ${tasks.length > 1 ? 'Subtasks' : 'a Subtask'} of "${title}"`,
+        position: { taskListId: target.taskListId, parent: target.task.id },
+      },
+    ],
+    { placeHolder: `Drop ${tasks.length > 1 ? `${tasks.length} tasks` : `"${tasks[0].task.title || 'No Title'}"`}` }
+  )
+  return picked && picked.position
+}
+
+async function hasSubtasks(tasks: GTask[]): Promise<boolean> {
+  for (const { taskListId, task, accountId } of tasks) {
+    if ((await gTaskTreeProvider.getSubtasks(taskListId, task.id || '', accountId)).length) return true
+  }
+  return false
+}
+
+/**
+ * Move tasks of the destination list with `tasks.move`, and copy the others into it
+ */
+async function moveTasks(tasks: GTask[], position: DropPosition, accountId?: string): Promise<MutationOutcome[]> {
+  const { taskListId, parent } = position
+  const latestChange = undoManager.peek('undo')
+  const sameList = tasks.filter(task => task.taskListId === taskListId)
+  const otherLists = tasks.filter(task => task.taskListId !== taskListId)
+
+  let previous = position.previous
+  const moves = sameList.map(({ task }) => {
+    const params = { tasklist: taskListId, task: task.id || undefined, parent, previous }
+    previous = task.id || undefined
+    return params
+  })
+  const outcomes = moves.length ? await gTaskTreeProvider.moveTasks(moves, accountId) : []
+  if (otherLists.length) {
+    const copies = otherLists.map(({ taskListId: tasklist, task }) => ({ tasklist, task }))
+    outcomes.push(...(await gTaskTreeProvider.moveTasksToList(copies, taskListId, accountId, { parent, previous })))
+  }
+  // A drop is undone at once
+  undoManager.combineSince(latestChange, tasks.length > 1 ? `Move ${tasks.length} tasks` : `Move "${tasks[0].task.title || 'No Title'}"`)
+  return outcomes
+}
+
+export default new GTaskDragAndDropController()
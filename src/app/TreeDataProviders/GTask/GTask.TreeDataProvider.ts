@@ -4,24 +4,114 @@ import * as vscode from 'vscode'
 import { tasks_v1, google } from 'googleapis'
 import { OAuth2Client } from 'googleapis-common'
 
+import { GAccount } from './GAccount.treeItem'
 import { GTaskList } from './GTaskList.treeItem'
 import { GTask } from './GTask.treeItem'
 import { CompletedTasksSection } from './CompletedTasks.treeItem'
+import { AccountProfile } from '../../Accounts'
+import { isInvalidGrantError, handleRevokedToken } from '../../TokenRevocation'
+import taskCache, { CachedAccountTasks, CachedTaskList, isClearedTask } from '../../TaskCache'
+import { findChangedTaskLists, syncAccountTasks } from '../../TaskSync'
+import outbox, { OutboxMutation, applyMutation, createLocalId } from '../../Outbox'
+import { GoogleApiError, isOfflineError } from '../../GoogleApi'
+import { showGoogleApiError } from '../../utils/ApiErrorNotification'
+import { showConflictDialog } from '../../utils/ConflictDialog'
+import undoManager, { copyTask, describeChange, HistoryAction, Inverse, invertMutations, UndoEntry } from '../../UndoManager'
+import { diffChecklist, parseChecklist } from '../../TaskListMarkdown'
+
+export type GTaskTreeItem = GAccount | GTask | GTaskList | CompletedTasksSection
+
+// How long clearing completed tasks can be undone before they are cleared on Google
+const CLEAR_COMPLETED_GRACE_PERIOD = 15 * 1000
+
+export interface SyncStatus {
+  // Tasks are shown from the cache because Google could not be reached
+  offline: boolean
+  // When the shown tasks were last fetched from Google (ISO date)
+  syncedAt?: string
+}
 
-type GTaskTreeItem = GTask | GTaskList | CompletedTasksSection
+export interface MutationOutcome {
+  // Saved to Google, waiting in the outbox until Google can be reached, or rejected by Google
+  status: 'saved' | 'queued' | 'failed'
+  error?: GoogleApiError
+}
+
+export interface MoveOutcome extends MutationOutcome {
+  // Copies of the task and its subtasks saved or queued in the destination list, out of `total`
+  copied: number
+  total: number
+}
+
+export interface AddOutcome extends MutationOutcome {
+  // Id of the added task, a local id until Google saved it
+  taskId: string
+}
+
+interface AccountService {
+  account: AccountProfile
+  service: tasks_v1.Tasks
+}
 
 class GTaskTreeProvider implements vscode.TreeDataProvider<GTaskTreeItem> {
+  // Service of the active account
   service?: tasks_v1.Tasks
 
-  private _onDidChangeTreeData: vscode.EventEmitter<undefined> = new vscode.EventEmitter<undefined>()
-  readonly onDidChangeTreeData: vscode.Event<undefined> = this._onDidChangeTreeData.event
+  private _onDidChangeTreeData = new vscode.EventEmitter<GTaskTreeItem | undefined>()
+  readonly onDidChangeTreeData: vscode.Event<GTaskTreeItem | undefined> = this._onDidChangeTreeData.event
   private _showCompleted = false
-
-  setOAuthClient(oAuth2Client: OAuth2Client): GTaskTreeProvider {
+  private _showAllAccounts = false
+  private _activeAccount?: AccountProfile
+  private _accountServices = new Map<string, AccountService>()
+  private _onDidChangeSyncStatus = new vscode.EventEmitter<SyncStatus>()
+  readonly onDidChangeSyncStatus: vscode.Event<SyncStatus> = this._onDidChangeSyncStatus.event
+  private _syncStatuses = new Map<string, SyncStatus>()
+  // Accounts whose cached tasks were already shown in this session
+  private _cacheServed = new Set<string>()
+  // Accounts synced in the background whose cache is up to date
+  private _freshlySynced = new Set<string>()
+  // Items last shown for each account, updated in place when a background sync changes them
+  private _shownItems = new Map<string, GTaskTreeItem[]>()
+  private _accountItems = new Map<string, GAccount>()
+  private _syncing?: Promise<boolean>
+  // Lists of each account whose completed tasks are hidden, but not cleared on Google while it can be undone
+  private _pendingClears = new Map<string, Set<string>>()
+  // Clearings waiting for their grace period to pass, each clearing its lists on Google when called
+  private _clearsInGracePeriod = new Set<() => Promise<unknown>>()
+
+  setOAuthClient(oAuth2Client: OAuth2Client, account?: AccountProfile): GTaskTreeProvider {
     this.service = google.tasks({ version: 'v1', auth: oAuth2Client })
+    this._activeAccount = account
+    this._accountServices.clear()
+    this._syncStatuses.clear()
+    if (account) this._accountServices.set(account.id, { account, service: this.service })
     return this
   }
 
+  /**
+   * Register an additional account to show side by side with the active one
+   */
+  addAccountOAuthClient(oAuth2Client: OAuth2Client, account: AccountProfile): GTaskTreeProvider {
+    this._accountServices.set(account.id, {
+      account,
+      service: google.tasks({ version: 'v1', auth: oAuth2Client }),
+    })
+    return this
+  }
+
+  setShowAllAccounts(showAllAccounts: boolean): GTaskTreeProvider {
+    this._showAllAccounts = showAllAccounts
+    return this
+  }
+
+  /**
+   * Service of the given account, falling back to the active account
+   */
+  getService(accountId?: string): tasks_v1.Tasks | undefined {
+    const accountService = accountId ? this._accountServices.get(accountId) : undefined
+    return accountService ? accountService.service : this.service
+  }
+
   // Overrides
   getTreeItem(element: GTaskTreeItem): vscode.TreeItem | Promise<vscode.TreeItem> {
     return element
@@ -29,40 +119,26 @@ class GTaskTreeProvider implements vscode.TreeDataProvider<GTaskTreeItem> {
 
   // Overrides
   async getChildren(element?: GTaskTreeItem): Promise<GTaskTreeItem[]> {
-    if (!this.service) {
-      vscode.window.showErrorMessage('oAuth client is not initialized')
-      return []
-    }
+    // Without a client the view is empty and the authorization welcome content is shown
+    if (!this.service) return []
     if (!element) {
-      const { data } = await this.service.tasklists.list()
-      const list = data.items || []
-      const taskLists = await Promise.all(
-        list.map((taskList, index) =>
-          GTaskListBuilder.build(
-            taskList,
-            // @ts-ignore
-            this.service,
-            this._showCompleted,
-            index === 0  // Auto-expand first tasklist
-          )
-        )
-      )
-
-      const items: GTaskTreeItem[] = [...taskLists]
-
-      // Add completed tasks section at the end
-      const completedSection = await this.buildCompletedTasksSection()
-      if (completedSection && completedSection.completedTasks.length > 0) {
-        items.push(completedSection)
+      if (this._showAllAccounts && this._accountServices.size > 1) {
+        this._accountItems.clear()
+        return [...this._accountServices.values()].map(({ account }) => {
+          const accountItem = new GAccount(account)
+          this._accountItems.set(account.id, accountItem)
+          return accountItem
+        })
       }
-
-      return items
+      return this.getAccountItems(this._activeAccount)
+    } else if (this._isAccount(element)) {
+      return this.getAccountItems(element.account)
     } else if (this._isCompletedTasksSection(element)) {
       // Return completed tasks when the section is expanded
       return element.completedTasks
     } else if (this._isTask(element)) {
       element.children.sort(sortTasks)
-      return element.children.map(childTask => new GTask(element.taskListId, childTask))
+      return element.children.map(childTask => new GTask(element.taskListId, childTask, [], element.accountId))
     } else if (this._isTaskList(element)) return element.childTaskList || []
 
     vscode.window.showErrorMessage('Unknown element in getChildren')
@@ -70,6 +146,212 @@ class GTaskTreeProvider implements vscode.TreeDataProvider<GTaskTreeItem> {
     return []
   }
 
+  private async getAccountItems(account?: AccountProfile): Promise<GTaskTreeItem[]> {
+    const accountId = account && account.id
+    const service = this.getService(accountId)
+    if (!service) return []
+
+    const cacheKey = accountId || ''
+    const items = await this.loadAccountItems(service, account)
+    this._shownItems.set(cacheKey, items)
+    return items
+  }
+
+  private async loadAccountItems(service: tasks_v1.Tasks, account?: AccountProfile): Promise<GTaskTreeItem[]> {
+    const accountId = account && account.id
+    const cacheKey = accountId || ''
+    const cached = await taskCache.get(accountId)
+    // The cache was just synced in the background, no need to fetch it again
+    if (this._freshlySynced.delete(cacheKey) && cached) return await this.buildAccountItems(cached, accountId)
+
+    if (cached && !this._cacheServed.has(cacheKey)) {
+      // First load in this session: show the cached tasks right away and sync in the background
+      this._cacheServed.add(cacheKey)
+      this.syncAccount(service, account).then(synced => {
+        if (!synced) return
+        this._freshlySynced.add(cacheKey)
+        this._onDidChangeTreeData.fire(undefined)
+      }, err => console.error('[GTaskTreeProvider] Error syncing tasks:', err))
+      return await this.buildAccountItems(cached, accountId)
+    }
+    this._cacheServed.add(cacheKey)
+
+    let entry: CachedAccountTasks | undefined
+    try {
+      // Falls back to the cache when Google cannot be reached
+      entry = (await this.syncAccount(service, account)) || (await taskCache.get(accountId))
+    } catch (err) {
+      showGoogleApiError('Could not load your tasks', err, { retry: () => this.refresh(), account })
+      return []
+    }
+    return entry ? await this.buildAccountItems(entry, accountId) : []
+  }
+
+  /**
+   * Sync the shown accounts in the background, refreshing only the task lists that changed.
+   * Resolves to false when Google could not be reached.
+   */
+  sync(): Promise<boolean> {
+    if (!this._syncing) {
+      this._syncing = this.syncShownAccounts().finally(() => (this._syncing = undefined))
+    }
+    return this._syncing
+  }
+
+  private async syncShownAccounts(): Promise<boolean> {
+    if (!this.service) return true
+    const accountServices: Array<{ account?: AccountProfile; service: tasks_v1.Tasks }> =
+      this._showAllAccounts && this._accountServices.size > 1
+        ? [...this._accountServices.values()]
+        : [{ account: this._activeAccount, service: this.service }]
+
+    let reachable = true
+    for (const { account, service } of accountServices) {
+      try {
+        await this.syncChanges(service, account)
+      } catch (err) {
+        console.error('[GTaskTreeProvider] Error syncing tasks:', err)
+        reachable = false
+      }
+    }
+    return reachable && !this.getSyncStatus().offline
+  }
+
+  private async syncChanges(service: tasks_v1.Tasks, account?: AccountProfile) {
+    const accountId = account && account.id
+    const cacheKey = accountId || ''
+    const previous = await taskCache.get(accountId)
+    const synced = await this.syncAccount(service, account)
+    if (!synced) return
+
+    const shownItems = this._shownItems.get(cacheKey)
+    const changedListIds = previous && findChangedTaskLists(previous, synced)
+    if (!shownItems || !changedListIds) return this.refreshAccount(accountId)
+    if (!changedListIds.length) return
+
+    const items = await this.buildAccountItems(synced, accountId)
+    for (const taskListId of changedListIds) {
+      const shownList = shownItems.find(item => this._isTaskList(item) && item.taskList.id === taskListId) as GTaskList
+      const list = items.find(item => this._isTaskList(item) && item.taskList.id === taskListId) as GTaskList
+      if (!shownList || !list) return this.refreshAccount(accountId)
+      shownList.taskList = list.taskList
+      shownList.childTaskList = list.childTaskList
+      shownList.label = list.label
+    }
+
+    const shownSection = shownItems.find(item => this._isCompletedTasksSection(item)) as CompletedTasksSection
+    const section = items.find(item => this._isCompletedTasksSection(item)) as CompletedTasksSection
+    if (Boolean(shownSection) !== Boolean(section)) return this.refreshAccount(accountId)
+
+    changedListIds.forEach(taskListId => {
+      const shownList = shownItems.find(item => this._isTaskList(item) && item.taskList.id === taskListId)
+      this._onDidChangeTreeData.fire(shownList)
+    })
+    if (shownSection && section && completedTasksKey(shownSection) !== completedTasksKey(section)) {
+      shownSection.completedTasks = section.completedTasks
+      shownSection.tooltip = section.tooltip
+      shownSection.description = section.description
+      this._onDidChangeTreeData.fire(shownSection)
+    }
+  }
+
+  /**
+   * Rebuild all items of the account from the cache
+   */
+  private refreshAccount(accountId?: string) {
+    this._freshlySynced.add(accountId || '')
+    const accountItem = accountId ? this._accountItems.get(accountId) : undefined
+    this._onDidChangeTreeData.fire(accountItem)
+  }
+
+  /**
+   * Send queued changes and merge the tasks changed on Google since the last sync into the cache.
+   * Returns undefined when they could not be fetched but a cached copy exists.
+   */
+  private async syncAccount(service: tasks_v1.Tasks, account?: AccountProfile): Promise<CachedAccountTasks | undefined> {
+    const accountId = account && account.id
+    try {
+      // Send changes made offline first, so the fetched tasks include them
+      await outbox.replay(service, showConflictDialog, accountId)
+      const entry = await syncAccountTasks(service, await taskCache.get(accountId))
+      await taskCache.set(entry, accountId)
+      this.setSyncStatus(accountId, { offline: false, syncedAt: entry.syncedAt })
+      return entry
+    } catch (err) {
+      if (isInvalidGrantError(err)) {
+        if (account) this._accountServices.delete(account.id)
+        if (!account || !this._activeAccount || account.id === this._activeAccount.id) this.service = undefined
+        await taskCache.clear(accountId)
+        this.setSyncStatus(accountId, undefined)
+        await handleRevokedToken(account)
+        if (this.service) this.refresh()
+        return undefined
+      }
+
+      const cached = await taskCache.get(accountId)
+      if (!cached) throw err
+      console.error('[GTaskTreeProvider] Error syncing tasks, showing cached tasks:', err)
+      this.setSyncStatus(accountId, { offline: true, syncedAt: cached.syncedAt })
+      return undefined
+    }
+  }
+
+  private async buildAccountItems(cached: CachedAccountTasks, accountId?: string): Promise<GTaskTreeItem[]> {
+    const entry = await this.withPendingChanges(cached, accountId)
+    const taskLists = entry.taskLists.map((cachedTaskList, index) =>
+      GTaskListBuilder.build(
+        cachedTaskList,
+        this._showCompleted,
+        index === 0,  // Auto-expand first tasklist
+        accountId
+      )
+    )
+
+    const items: GTaskTreeItem[] = [...taskLists]
+
+    // Add completed tasks section at the end
+    const completedSection = this.buildCompletedTasksSection(entry, accountId)
+    if (completedSection.completedTasks.length > 0) {
+      items.push(completedSection)
+    }
+
+    return items
+  }
+
+  /**
+   * The cached tasks with the changes still waiting in the outbox or for the undo grace period applied
+   */
+  private async withPendingChanges(cached: CachedAccountTasks, accountId?: string): Promise<CachedAccountTasks> {
+    const pending = (await outbox.get(accountId)).map(({ mutation }) => mutation)
+    const clears = this._pendingClears.get(accountId || '') || new Set<string>()
+    clears.forEach(tasklist => pending.push({ kind: 'clearTasks', params: { tasklist } }))
+    if (!pending.length) return cached
+
+    const entry: CachedAccountTasks = JSON.parse(JSON.stringify(cached))
+    pending.forEach(mutation => applyMutation(entry, mutation))
+    return entry
+  }
+
+  private setSyncStatus(accountId: string | undefined, status: SyncStatus | undefined) {
+    if (status) this._syncStatuses.set(accountId || '', status)
+    else this._syncStatuses.delete(accountId || '')
+    this._onDidChangeSyncStatus.fire(this.getSyncStatus())
+  }
+
+  /**
+   * Combined status of all shown accounts: offline when any of them is served from the cache
+   */
+  getSyncStatus(): SyncStatus {
+    const offlineStatuses = [...this._syncStatuses.values()].filter(status => status.offline)
+    if (!offlineStatuses.length) return { offline: false }
+    const syncedAt = offlineStatuses.map(status => status.syncedAt || '').sort()[0]
+    return { offline: true, syncedAt: syncedAt || undefined }
+  }
+
+  private _isAccount(gTaskTreeItem: GTaskTreeItem): gTaskTreeItem is GAccount {
+    return (gTaskTreeItem as GAccount).account !== undefined
+  }
+
   private _isTaskList(gTaskTreeItem: GTaskTreeItem): gTaskTreeItem is GTaskList {
     return (gTaskTreeItem as GTaskList).taskList !== undefined
   }
@@ -82,45 +364,28 @@ class GTaskTreeProvider implements vscode.TreeDataProvider<GTaskTreeItem> {
     return (gTaskTreeItem as CompletedTasksSection).completedTasks !== undefined
   }
 
-  private async buildCompletedTasksSection(): Promise<CompletedTasksSection | null> {
-    if (!this.service) return null
-
-    try {
-      const { data } = await this.service.tasklists.list()
-      const lists = data.items || []
-      const allCompletedTasks: GTask[] = []
-
-      // Fetch completed tasks from all task lists
-      for (const taskList of lists) {
-        if (taskList.id) {
-          const { data: tasksData } = await this.service.tasks.list({
-            tasklist: taskList.id,
-            showCompleted: true,
-            showHidden: true,
-          })
-
-          const tasks = tasksData.items || []
-          const completedTasks = tasks.filter(task => task.status === 'completed')
+  private buildCompletedTasksSection(entry: CachedAccountTasks, accountId?: string): CompletedTasksSection {
+    const allCompletedTasks: GTask[] = []
 
+    // Collect completed tasks from all task lists
+    for (const cachedList of entry.taskLists) {
+      const { taskList, tasks } = cachedList
+      Object.values(tasks)
+        .filter(task => task.status === 'completed' && !isClearedTask(task, cachedList))
+        .forEach(task => {
           // Add completed tasks with their taskListId
-          completedTasks.forEach(task => {
-            allCompletedTasks.push(new GTask(taskList.id || '', task))
-          })
-        }
-      }
+          allCompletedTasks.push(new GTask(taskList.id || '', task, [], accountId))
+        })
+    }
 
-      // Sort by completion date (most recent first)
-      allCompletedTasks.sort((a, b) => {
-        const aDate = a.task.completed || ''
-        const bDate = b.task.completed || ''
-        return bDate.localeCompare(aDate)
-      })
+    // Sort by completion date (most recent first)
+    allCompletedTasks.sort((a, b) => {
+      const aDate = a.task.completed || ''
+      const bDate = b.task.completed || ''
+      return bDate.localeCompare(aDate)
+    })
 
-      return new CompletedTasksSection(allCompletedTasks)
-    } catch (error) {
-      console.error('[GTaskTreeProvider] Error building completed tasks section:', error)
-      return null
-    }
+    return new CompletedTasksSection(allCompletedTasks)
   }
 
   refresh(options?: { showCompleted?: boolean }): void {
@@ -129,52 +394,343 @@ class GTaskTreeProvider implements vscode.TreeDataProvider<GTaskTreeItem> {
     this._onDidChangeTreeData.fire(undefined)
   }
 
-  async addTaskList(tasklist: tasks_v1.Params$Resource$Tasklists$Insert) {
-    await this.service?.tasklists.insert(tasklist)
-    this.refresh()
+  async addTaskList(tasklist: tasks_v1.Params$Resource$Tasklists$Insert, accountId?: string) {
+    return this.mutate({ kind: 'insertTaskList', params: tasklist, localId: createLocalId() }, accountId)
+  }
+
+  async deleteTaskList(taskList: tasks_v1.Params$Resource$Tasklists$Delete, accountId?: string) {
+    return this.mutate({ kind: 'deleteTaskList', params: taskList }, accountId)
+  }
+
+  async updateTaskList(taskList: tasks_v1.Params$Resource$Tasklists$Patch, accountId?: string) {
+    return this.mutate({ kind: 'patchTaskList', params: taskList }, accountId)
+  }
+
+  async addTask(newTask: tasks_v1.Params$Resource$Tasks$Insert, accountId?: string): Promise<AddOutcome> {
+    const localId = createLocalId()
+    const outcome = await this.mutate({ kind: 'insertTask', params: newTask, localId }, accountId)
+    return { ...outcome, taskId: outbox.resolveId(localId) }
+  }
+
+  async patchTask(task: tasks_v1.Params$Resource$Tasks$Patch, accountId?: string) {
+    return this.mutate({ kind: 'patchTask', params: task }, accountId)
+  }
+
+  async deleteTask(task: tasks_v1.Params$Resource$Tasks$Delete, accountId?: string) {
+    return this.mutate({ kind: 'deleteTask', params: task }, accountId)
   }
 
-  async deleteTaskList(taskList: tasks_v1.Params$Resource$Tasklists$Delete) {
-    await this.service?.tasklists.delete(taskList)
-    this.refresh()
+  /**
+   * Change several tasks at once, sent to Google in batches. Resolves with the outcome of each change.
+   */
+  patchTasks(tasks: tasks_v1.Params$Resource$Tasks$Patch[], accountId?: string): Promise<MutationOutcome[]> {
+    return this.mutateAll(tasks.map(params => ({ kind: 'patchTask' as const, params })), accountId)
   }
 
-  async updateTaskList(taskList: tasks_v1.Params$Resource$Tasklists$Patch) {
-    await this.service?.tasklists.patch(taskList)
-    this.refresh()
+  /**
+   * Delete several tasks at once, sent to Google in batches. Resolves with the outcome of each deletion.
+   */
+  deleteTasks(tasks: tasks_v1.Params$Resource$Tasks$Delete[], accountId?: string): Promise<MutationOutcome[]> {
+    return this.mutateAll(tasks.map(params => ({ kind: 'deleteTask' as const, params })), accountId)
   }
 
-  async addTask(newTask: tasks_v1.Params$Resource$Tasks$Insert) {
-    await this.service?.tasks.insert(newTask)
-    this.refresh()
+  /**
+   * Completed tasks of the list that clearing it would hide, the pending changes included
+   */
+  async countCompletedTasks(taskListId: string, accountId?: string): Promise<number> {
+    const cached = await taskCache.get(accountId)
+    if (!cached) return 0
+    const entry = await this.withPendingChanges(cached, accountId)
+    const cachedList = entry.taskLists.find(({ taskList }) => taskList.id === taskListId)
+    if (!cachedList) return 0
+    const completedTasks = Object.values(cachedList.tasks).filter(task => task.status === 'completed')
+    return completedTasks.filter(task => !isClearedTask(task, cachedList)).length
   }
 
-  async patchTask(task: tasks_v1.Params$Resource$Tasks$Patch) {
-    await this.service?.tasks.patch(task)
-    this.refresh()
+  /**
+   * Hide the completed tasks of the lists right away, and clear them on Google once the grace period
+   * passed. Returns a function that undoes the clearing, returning false when it is too late.
+   */
+  clearCompleted(taskListIds: string[], accountId?: string): () => boolean {
+    const cacheKey = accountId || ''
+    const clears = this._pendingClears.get(cacheKey) || new Set<string>()
+    this._pendingClears.set(cacheKey, clears)
+    taskListIds.forEach(taskListId => clears.add(taskListId))
+    this.refreshAccount(accountId)
+
+    let cleared = false
+    const clear = async () => {
+      cleared = true
+      clearTimeout(timer)
+      this._clearsInGracePeriod.delete(clear)
+      taskListIds.forEach(taskListId => clears.delete(taskListId))
+      const mutations = taskListIds.map(tasklist => ({ kind: 'clearTasks' as const, params: { tasklist } }))
+      await this.markCleared(taskListIds, accountId)
+      return this.enqueueAndReplay(mutations, accountId, false)
+    }
+    const timer = setTimeout(
+      () => clear().catch(err => console.error('[GTaskTreeProvider] Error clearing completed tasks:', err)),
+      CLEAR_COMPLETED_GRACE_PERIOD
+    )
+    this._clearsInGracePeriod.add(clear)
+
+    return () => {
+      if (cleared) return false
+      clearTimeout(timer)
+      this._clearsInGracePeriod.delete(clear)
+      taskListIds.forEach(taskListId => clears.delete(taskListId))
+      this.refreshAccount(accountId)
+      return true
+    }
+  }
+
+  /**
+   * Remember when the lists were cleared, so the tasks they hid stay out of the Completed section after a sync
+   */
+  private async markCleared(taskListIds: string[], accountId?: string) {
+    const cached = await taskCache.get(accountId)
+    if (!cached) return
+    const clearedAt = new Date().toISOString()
+    cached.taskLists
+      .filter(({ taskList }) => taskListIds.includes(taskList.id || ''))
+      .forEach(cachedList => {
+        cachedList.clearedAt = clearedAt
+      })
+    await taskCache.set(cached, accountId)
+  }
+
+  /**
+   * Clear right away the lists whose grace period has not passed yet, e.g. before the window closes.
+   * The clearings are queued in the outbox, so they are sent on the next sync if they cannot be sent now.
+   */
+  async flushPendingClears() {
+    await Promise.all(
+      Array.from(this._clearsInGracePeriod).map(clear =>
+        clear().catch(err => console.error('[GTaskTreeProvider] Error clearing completed tasks:', err))
+      )
+    )
   }
 
-  deleteTask(task: tasks_v1.Params$Resource$Tasks$Delete) {
-    this.service?.tasks.delete(task)
-    this.refresh()
+  /**
+   * Reorder tasks within their list or nest them under another task. Resolves with the outcome of each move.
+   */
+  moveTasks(tasks: tasks_v1.Params$Resource$Tasks$Move[], accountId?: string): Promise<MutationOutcome[]> {
+    return this.mutateAll(tasks.map(params => ({ kind: 'moveTask' as const, params })), accountId)
+  }
+
+  /**
+   * Move tasks with their subtask trees to another list of the account, by default to the top of it.
+   * Google cannot move tasks between lists, so each task is copied into the destination and the
+   * original deleted once the whole copy is saved or queued. Resolves with the outcome of each move.
+   */
+  async moveTasksToList(
+    tasks: Array<{ tasklist: string; task: tasks_v1.Schema$Task }>,
+    destination: string,
+    accountId?: string,
+    position: { parent?: string; previous?: string } = {}
+  ): Promise<MoveOutcome[]> {
+    const cachedTasks = await taskCache.get(accountId)
+    // Subtasks still waiting in the outbox are copied along with the task
+    const cached = cachedTasks && (await this.withPendingChanges(cachedTasks, accountId))
+    const latestChange = undoManager.peek('undo')
+    const copies: OutboxMutation[] = []
+    // Copies of each moved task, the task itself first and then its subtask tree
+    const copyRanges: Array<{ start: number; end: number }> = []
+    const copySubtasks = (tasklist: string, parentId: string | null | undefined, copyId: string) => {
+      let previousSubtask: string | undefined
+      getSubtasks(cached, tasklist, parentId).forEach(subtask => {
+        const subtaskCopyId = createLocalId()
+        copies.push({
+          kind: 'insertTask',
+          params: { tasklist: destination, parent: copyId, previous: previousSubtask, requestBody: copyTask(subtask) },
+          localId: subtaskCopyId,
+        })
+        previousSubtask = subtaskCopyId
+        copySubtasks(tasklist, subtask.id, subtaskCopyId)
+      })
+    }
+
+    const { parent } = position
+    let { previous } = position
+    tasks.forEach(({ tasklist, task }) => {
+      const start = copies.length
+      const localId = createLocalId()
+      // Keep the moved tasks in the order they were given
+      copies.push({
+        kind: 'insertTask',
+        params: { tasklist: destination, parent, previous, requestBody: copyTask(task) },
+        localId,
+      })
+      previous = localId
+      copySubtasks(tasklist, task.id, localId)
+      copyRanges.push({ start, end: copies.length })
+    })
+
+    const copyOutcomes = await this.mutateAll(copies, accountId)
+    const outcomes = copyRanges.map(({ start, end }): MoveOutcome => {
+      const range = copyOutcomes.slice(start, end)
+      const failed = range.find(outcome => outcome.status === 'failed')
+      const queued = range.some(outcome => outcome.status === 'queued')
+      const copied = range.filter(outcome => outcome.status !== 'failed').length
+      return { status: failed ? 'failed' : queued ? 'queued' : 'saved', error: failed && failed.error, copied, total: range.length }
+    })
+
+    // Keep the originals of tasks that could not be copied completely
+    const moved = tasks.filter((_, index) => outcomes[index].status !== 'failed')
+    const deletions = await this.deleteTasks(
+      moved.map(({ tasklist, task }) => ({ tasklist, task: task.id || undefined })),
+      accountId
+    )
+    // Copying and deleting are undone together
+    const label = tasks.length > 1 ? `Move ${tasks.length} tasks` : `Move "${tasks[0].task.title || 'No Title'}"`
+    undoManager.combineSince(latestChange, label)
+
+    return tasks.map(({ task }, index) => {
+      const outcome = outcomes[index]
+      if (outcome.status === 'failed') return outcome
+      const deletion = deletions[moved.findIndex(entry => entry.task === task)]
+      if (deletion.status === 'failed') return { ...outcome, status: 'failed', error: deletion.error }
+      return deletion.status === 'queued' ? { ...outcome, status: 'queued' } : outcome
+    })
+  }
+
+  /**
+   * Lists of the account with their tasks as shown in the tree, the pending changes included
+   */
+  async getTaskLists(accountId?: string): Promise<CachedTaskList[]> {
+    const cached = await taskCache.get(accountId)
+    return cached ? (await this.withPendingChanges(cached, accountId)).taskLists : []
+  }
+
+  /**
+   * Make the visible tasks of the list match a checklist edited as Markdown, as one change.
+   * Throws a ChecklistParseError when the checklist cannot be read.
+   */
+  async saveChecklist(taskListId: string, text: string, accountId?: string): Promise<MutationOutcome[]> {
+    const items = parseChecklist(text)
+    const cachedList = (await this.getTaskLists(accountId)).find(({ taskList }) => taskList.id === taskListId)
+    if (!cachedList) return []
+    const mutations = diffChecklist(cachedList, items, createLocalId)
+    if (!mutations.length) return []
+
+    const latestChange = undoManager.peek('undo')
+    const outcomes = await this.mutateAll(mutations, accountId)
+    undoManager.combineSince(latestChange, `Edit "${cachedList.taskList.title || 'No Title'}"`)
+    return outcomes
+  }
+
+  /**
+   * Subtasks of the task in their order, the pending changes included
+   */
+  async getSubtasks(taskListId: string, taskId: string, accountId?: string): Promise<tasks_v1.Schema$Task[]> {
+    const cached = await taskCache.get(accountId)
+    return getSubtasks(cached && (await this.withPendingChanges(cached, accountId)), taskListId, taskId)
+  }
+
+  private async mutate(mutation: OutboxMutation, accountId?: string): Promise<MutationOutcome> {
+    const [outcome] = await this.enqueueAndReplay([mutation], accountId, false)
+    return outcome
+  }
+
+  /**
+   * Apply the mutations, leaving it to the caller to report their outcome
+   */
+  mutateAll(mutations: OutboxMutation[], accountId?: string): Promise<MutationOutcome[]> {
+    return this.enqueueAndReplay(mutations, accountId, true)
+  }
+
+  /**
+   * Revert the latest change, or redo the latest undone change. Resolves with the reverted
+   * change and the outcome of its mutations, or undefined when there is nothing to revert.
+   */
+  async revert(action: 'undo' | 'redo'): Promise<{ entry: UndoEntry; outcomes: MutationOutcome[] } | undefined> {
+    const entry = undoManager.take(action)
+    if (!entry) return undefined
+    // Items created with a local id since the change was recorded are cached by the id Google assigned once saved
+    const mutations = entry.mutations.map(mutation => outbox.resolveIds(mutation))
+    let outcomes: MutationOutcome[]
+    try {
+      outcomes = await this.enqueueAndReplay(mutations, entry.accountId, true, action, entry.label)
+    } catch (err) {
+      undoManager.putBack(action, entry)
+      throw err
+    }
+    // Nothing changed, so the change can be reverted again later
+    if (outcomes.every(({ status }) => status === 'failed')) undoManager.putBack(action, entry)
+    else undoManager.replaceIds(entry.recreatedIds)
+    return { entry, outcomes }
+  }
+
+  /**
+   * Queue the mutations in the outbox, show them in the tree right away and send them to Google.
+   * While offline they stay queued and are replayed on the next sync. The mutations that were not
+   * rejected are recorded in the undo history.
+   */
+  private async enqueueAndReplay(
+    mutations: OutboxMutation[],
+    accountId: string | undefined,
+    quiet: boolean,
+    history: HistoryAction = 'change',
+    label?: string
+  ): Promise<MutationOutcome[]> {
+    const service = this.getService(accountId)
+    if (!service) {
+      const error = new GoogleApiError('Not authorized with Google')
+      return mutations.map((): MutationOutcome => ({ status: 'failed', error }))
+    }
+
+    const cached = await taskCache.get(accountId)
+    // How to revert the mutations, worked out from the tasks they are applied to
+    const before = cached && (await this.withPendingChanges(cached, accountId))
+    const inverses = before ? invertMutations(before, mutations) : []
+    const entries = await outbox.enqueue(mutations, cached, accountId, quiet)
+    // Show the changes on top of the cached tasks until Google returns them
+    if (cached) this.refreshAccount(accountId)
+
+    let offline = false
+    try {
+      await outbox.replay(service, showConflictDialog, accountId)
+    } catch (err) {
+      console.error('[GTaskTreeProvider] Changes kept in the outbox:', err)
+      if (isOfflineError(err)) {
+        this.setSyncStatus(accountId, { offline: true, syncedAt: cached && cached.syncedAt })
+        offline = true
+      }
+    }
+    if (!offline) this.refresh()
+
+    const outcomes = outbox.takeOutcomes(entries).map((outcome): MutationOutcome => {
+      if (outcome === null) return { status: 'saved' }
+      if (outcome === undefined) return { status: 'queued' }
+      return { status: 'failed', error: outcome }
+    })
+    const applied = inverses.filter((_, index) => outcomes[index].status !== 'failed')
+    // Changes that cannot be reverted are left out of the history
+    if (before && applied.length && applied.every(Boolean)) {
+      const reverting = (applied as Inverse[]).reverse()
+      const revertingMutations = ([] as OutboxMutation[]).concat(...reverting.map(inverse => inverse.mutations))
+      const recreatedIds = new Map<string, string>()
+      reverting.forEach(inverse => inverse.recreatedIds.forEach((copyId, id) => recreatedIds.set(id, copyId)))
+      undoManager.record(history, label || describeChange(before, mutations), revertingMutations, accountId, recreatedIds)
+    }
+    return outcomes
   }
 }
 
 class GTaskListBuilder {
   private constructor() { }
 
-  static async build(
-    taskList: tasks_v1.Schema$TaskList,
-    service: tasks_v1.Tasks,
+  static build(
+    cachedTaskList: CachedTaskList,
     showCompleted: boolean,
-    isExpanded: boolean = false
-  ): Promise<GTaskList> {
-    const { data } = await service.tasks.list({
-      tasklist: taskList.id || '',
-      showHidden: showCompleted,
-      showCompleted,
-    })
-    let list = data.items || []
+    isExpanded: boolean = false,
+    accountId?: string
+  ): GTaskList {
+    const { taskList } = cachedTaskList
+    // Cleared completed tasks stay out of the list even when completed tasks are shown
+    let list = Object.values(cachedTaskList.tasks).filter(
+      task => task.status !== 'completed' || (showCompleted && !isClearedTask(task, cachedTaskList))
+    )
     let children: { [key: string]: tasks_v1.Schema$Task[] } = {}
     list = list.filter(task => {
       if (!task.parent) return true
@@ -186,7 +742,8 @@ class GTaskListBuilder {
     list.sort(sortTasks)
     const gTaskList = new GTaskList(
       taskList,
-      list.map(task => new GTask(taskList.id || '', task, children[task.id || 'error']))
+      list.map(task => new GTask(taskList.id || '', task, children[task.id || 'error'], accountId)),
+      accountId
     )
 
     // Set expanded state for first tasklist
@@ -198,6 +755,22 @@ class GTaskListBuilder {
   }
 }
 
+function getSubtasks(
+  cached: CachedAccountTasks | undefined,
+  taskListId: string,
+  parentId?: string | null
+): tasks_v1.Schema$Task[] {
+  const cachedList = cached && cached.taskLists.find(({ taskList }) => taskList.id === taskListId)
+  if (!cachedList || !parentId) return []
+  return Object.values(cachedList.tasks)
+    .filter(task => task.parent === parentId && !task.deleted)
+    .sort(sortTasks)
+}
+
+function completedTasksKey(section: CompletedTasksSection): string {
+  return section.completedTasks.map(({ task }) => `${task.id}:${task.etag}:${task.updated}`).join('\n')
+}
+
 function sortTasks(a: tasks_v1.Schema$Task, b: tasks_v1.Schema$Task): number {
   if (!(a.position && b.position)) return 0
   return a.position > b.position ? 1 : a.position < b.position ? -1 : 0
@@ -13,7 +13,8 @@ export class GTask extends vscode.TreeItem {
   constructor(
     public taskListId: string,
     public task: tasks_v1.Schema$Task,
-    public children: tasks_v1.Schema$Task[] = []
+    public children: tasks_v1.Schema$Task[] = [],
+    public accountId?: string
   ) {
     super(
       task.title || 'No Title Provided',
@@ -21,10 +22,14 @@ export class GTask extends vscode.TreeItem {
         ? vscode.TreeItemCollapsibleState.Collapsed
         : vscode.TreeItemCollapsibleState.None
     )
-    if (task.parent) this.contextValue += 'SubItem'
+    // Completed tasks only offer to reopen or delete them
+    if (task.status === 'completed') this.contextValue = 'GTaskCompleted'
+    else {
+      if (task.parent) this.contextValue += 'SubItem'
 
-    // Add context for scheduling menu visibility
-    if (task.due) this.contextValue += '+has-schedule'
+      // Add context for scheduling menu visibility
+      if (task.due) this.contextValue += '+has-schedule'
+    }
 
     // Set command for double-click to edit task
     this.command = {
@@ -36,8 +41,12 @@ export class GTask extends vscode.TreeItem {
 
   // Overrides
   // @ts-ignore
-  get tooltip(): string {
-    return this.task.notes || this.task.title || 'No Title Provided'
+  get tooltip(): vscode.MarkdownString {
+    // Notes are rendered as Markdown, below the title
+    const tooltip = new vscode.MarkdownString()
+    tooltip.appendMarkdown('**').appendText(this.task.title || 'No Title Provided').appendMarkdown('**')
+    if (this.task.notes) tooltip.appendMarkdown('\n\n---\n\n').appendMarkdown(this.task.notes)
+    return tooltip
   }
 
   // Overrides
@@ -70,9 +79,9 @@ export class GTask extends vscode.TreeItem {
       description += ' · '
     }
 
-    // Add notes
-    if (hasNotes) {
-      description += this.task.notes
+    // Add the first line of the notes, the tooltip shows all of them
+    if (hasNotes && this.task.notes) {
+      description += this.task.notes.split('\n')[0]
     }
 
     return description
@@ -6,7 +6,11 @@ import {GTask} from './GTask.treeItem'
 export class GTaskList extends vscode.TreeItem {
   contextValue = 'GTaskList'
 
-  constructor(public taskList: tasks_v1.Schema$TaskList, public childTaskList?: GTask[]) {
+  constructor(
+    public taskList: tasks_v1.Schema$TaskList,
+    public childTaskList?: GTask[],
+    public accountId?: string
+  ) {
     super(taskList.title || 'No Title', vscode.TreeItemCollapsibleState.Collapsed)
   }
 
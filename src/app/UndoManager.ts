@@ -0,0 +1,313 @@
+'use strict'
+
+import {tasks_v1} from 'googleapis'
+
+import {CachedAccountTasks, CachedTaskList} from './TaskCache'
+import {applyMutation, createLocalId, OutboxMutation, resolveMutationIds} from './Outbox'
+
+// Changes that can be undone, the oldest are forgotten first
+const MAX_UNDO_ENTRIES = 50
+
+export interface UndoEntry {
+  id: number
+  // The change, e.g. 'Delete "Buy milk"'
+  label: string
+  accountId?: string
+  // Mutations that revert the change
+  mutations: OutboxMutation[]
+  // Ids of deleted items the mutations recreate, mapped to the local ids of the copies
+  recreatedIds: Map<string, string>
+}
+
+/**
+ * Mutations that revert a mutation, and the deleted items they recreate
+ */
+export interface Inverse {
+  mutations: OutboxMutation[]
+  recreatedIds: Map<string, string>
+}
+
+/**
+ * Whether mutations are a new change, or undo or redo an earlier one
+ */
+export type HistoryAction = 'change' | 'undo' | 'redo'
+
+/**
+ * Changes made in the tree that can be undone, and undone changes that can be redone
+ */
+class UndoManager {
+  private undoStack: UndoEntry[] = []
+  private redoStack: UndoEntry[] = []
+  private nextId = 1
+
+  /**
+   * Remember how to revert mutations. Reverting an undo makes a redo; a new change discards
+   * the changes that could be redone.
+   */
+  record(
+    action: HistoryAction,
+    label: string,
+    mutations: OutboxMutation[],
+    accountId?: string,
+    recreatedIds: Map<string, string> = new Map()
+  ): UndoEntry {
+    const entry = {id: this.nextId++, label, accountId, mutations, recreatedIds}
+    if (action === 'undo') {
+      this.redoStack.push(entry)
+    } else {
+      if (action === 'change') this.redoStack = []
+      this.undoStack.push(entry)
+      if (this.undoStack.length > MAX_UNDO_ENTRIES) this.undoStack.shift()
+    }
+    return entry
+  }
+
+  peek(action: 'undo' | 'redo'): UndoEntry | undefined {
+    const stack = action === 'undo' ? this.undoStack : this.redoStack
+    return stack[stack.length - 1]
+  }
+
+  take(action: 'undo' | 'redo'): UndoEntry | undefined {
+    return action === 'undo' ? this.undoStack.pop() : this.redoStack.pop()
+  }
+
+  /**
+   * Put back an entry taken to revert it, when none of its mutations could be applied
+   */
+  putBack(action: 'undo' | 'redo', entry: UndoEntry) {
+    if (action === 'undo') this.undoStack.push(entry)
+    else this.redoStack.push(entry)
+  }
+
+  /**
+   * Point the recorded changes at the copies of recreated items, as the items they refer to are gone
+   */
+  replaceIds(ids: Map<string, string>) {
+    if (!ids.size) return
+    const replace = (entry: UndoEntry) => {
+      entry.mutations = entry.mutations.map(mutation => resolveMutationIds(mutation, ids))
+    }
+    this.undoStack.forEach(replace)
+    this.redoStack.forEach(replace)
+  }
+
+  /**
+   * Join the changes recorded after `entry` into one change, undone at once
+   */
+  combineSince(entry: UndoEntry | undefined, label: string) {
+    const isLater = (recorded: UndoEntry) => !entry || recorded.id > entry.id
+    const combined = this.undoStack.filter(isLater)
+    if (!combined.length) return
+    this.undoStack = this.undoStack.filter(recorded => !isLater(recorded))
+    const mutations = ([] as OutboxMutation[]).concat(...combined.reverse().map(recorded => recorded.mutations))
+    const recreatedIds = new Map<string, string>()
+    combined.forEach(recorded => recorded.recreatedIds.forEach((copyId, id) => recreatedIds.set(id, copyId)))
+    this.undoStack.push({id: this.nextId++, label, accountId: combined[0].accountId, mutations, recreatedIds})
+  }
+
+  /**
+   * Forget the changes of an account, or of all accounts
+   */
+  clear(accountId?: string) {
+    const kept = (entry: UndoEntry) => accountId !== undefined && entry.accountId !== accountId
+    this.undoStack = this.undoStack.filter(kept)
+    this.redoStack = this.redoStack.filter(kept)
+  }
+}
+
+/**
+ * How to revert each of the mutations, given the tasks before they are applied.
+ * Undefined for a mutation that cannot be reverted, like clearing completed tasks.
+ */
+export function invertMutations(before: CachedAccountTasks, mutations: OutboxMutation[]): Array<Inverse | undefined> {
+  const state: CachedAccountTasks = JSON.parse(JSON.stringify(before))
+  return mutations.map(mutation => {
+    const recreatedIds = new Map<string, string>()
+    const inverse = invertMutation(state, mutation, recreatedIds)
+    applyMutation(state, mutation)
+    return inverse && {mutations: inverse, recreatedIds}
+  })
+}
+
+function invertMutation(
+  state: CachedAccountTasks,
+  mutation: OutboxMutation,
+  recreatedIds: Map<string, string>
+): OutboxMutation[] | undefined {
+  const findList = (id?: string) => state.taskLists.find(({taskList}) => taskList.id === id)
+
+  switch (mutation.kind) {
+    case 'insertTaskList':
+      return [{kind: 'deleteTaskList', params: {tasklist: mutation.localId}}]
+    case 'patchTaskList': {
+      const cachedList = findList(mutation.params.tasklist)
+      if (!cachedList) return undefined
+      const requestBody = previousValues(cachedList.taskList, mutation.params.requestBody)
+      return [{kind: 'patchTaskList', params: {tasklist: mutation.params.tasklist, requestBody}}]
+    }
+    case 'deleteTaskList': {
+      const cachedList = findList(mutation.params.tasklist)
+      if (!cachedList) return undefined
+      const localId = createLocalId()
+      const {title} = cachedList.taskList
+      recreatedIds.set(mutation.params.tasklist || '', localId)
+      return [
+        {kind: 'insertTaskList', params: {requestBody: {title}}, localId},
+        ...restoreTasks(cachedList, localId, recreatedIds),
+      ]
+    }
+    case 'insertTask':
+      return [{kind: 'deleteTask', params: {tasklist: mutation.params.tasklist, task: mutation.localId}}]
+    case 'patchTask': {
+      const {tasklist, task: taskId} = mutation.params
+      const cachedList = findList(tasklist)
+      const task = cachedList && taskId ? cachedList.tasks[taskId] : undefined
+      if (!task) return undefined
+      const requestBody = previousValues(task, mutation.params.requestBody)
+      return [{kind: 'patchTask', params: {tasklist, task: taskId, requestBody}}]
+    }
+    case 'deleteTask': {
+      const {tasklist, task: taskId} = mutation.params
+      const cachedList = findList(tasklist)
+      const task = cachedList && taskId ? cachedList.tasks[taskId] : undefined
+      if (!cachedList || !task) return undefined
+      // The task is recreated with its subtasks, in its place
+      const localId = createLocalId()
+      const params = {
+        tasklist,
+        parent: task.parent || undefined,
+        previous: getPreviousSibling(cachedList, task),
+        requestBody: copyTask(task),
+      }
+      recreatedIds.set(taskId || '', localId)
+      return [
+        {kind: 'insertTask', params, localId},
+        ...restoreTasks(cachedList, tasklist || '', recreatedIds, task.id, localId),
+      ]
+    }
+    case 'moveTask': {
+      const {tasklist, task: taskId} = mutation.params
+      const cachedList = findList(tasklist)
+      const task = cachedList && taskId ? cachedList.tasks[taskId] : undefined
+      if (!cachedList || !task) return undefined
+      const params = {
+        tasklist,
+        task: taskId,
+        parent: task.parent || undefined,
+        previous: getPreviousSibling(cachedList, task),
+      }
+      return [{kind: 'moveTask', params}]
+    }
+    case 'clearTasks':
+      return undefined
+  }
+}
+
+/**
+ * Describe a change for the undo history, e.g. 'Delete "Buy milk"' or 'Complete 3 tasks'
+ */
+export function describeChange(before: CachedAccountTasks, mutations: OutboxMutation[]): string {
+  const [first] = mutations
+  if (!first) return 'Change'
+  const verb = getVerb(first)
+  const sameKind = mutations.every(mutation => getVerb(mutation) === verb)
+  const itemName = first.kind.endsWith('TaskList') ? 'lists' : 'tasks'
+  if (mutations.length > 1) return sameKind ? `${verb} ${mutations.length} ${itemName}` : `Change ${mutations.length} ${itemName}`
+
+  const params = first.params as {tasklist?: string; task?: string; requestBody?: {title?: string | null}}
+  const cachedList = before.taskLists.find(({taskList}) => taskList.id === params.tasklist)
+  const item = first.kind.endsWith('TaskList')
+    ? cachedList && cachedList.taskList
+    : cachedList && params.task ? cachedList.tasks[params.task] : undefined
+  const title = (params.requestBody && params.requestBody.title) || (item && item.title)
+  return title ? `${verb} "${title}"` : verb
+}
+
+function getVerb(mutation: OutboxMutation): string {
+  switch (mutation.kind) {
+    case 'insertTaskList':
+    case 'insertTask':
+      return 'Add'
+    case 'deleteTaskList':
+    case 'deleteTask':
+      return 'Delete'
+    case 'moveTask':
+      return 'Move'
+    case 'clearTasks':
+      return 'Clear'
+    default: {
+      const changes: tasks_v1.Schema$Task = mutation.params.requestBody || {}
+      if ('title' in changes && Object.keys(changes).length === 1) return 'Rename'
+      if ('status' in changes) return changes.status === 'completed' ? 'Complete' : 'Reopen'
+      return 'Edit'
+    }
+  }
+}
+
+/**
+ * Values the changed fields had before, null for those that were not set
+ */
+function previousValues<T extends object>(item: T, changes?: Partial<T>): T {
+  const values: {[field: string]: unknown} = {}
+  Object.keys(changes || {}).forEach(field => {
+    const value = (item as {[field: string]: unknown})[field]
+    values[field] = value === undefined ? null : value
+  })
+  return values as T
+}
+
+/**
+ * Mutations recreating the subtasks of `parentId`, or the top-level tasks without it, and their
+ * subtasks under the recreated parent, keeping their order. The ids of the copies are added to `recreatedIds`.
+ */
+export function restoreTasks(
+  cachedList: CachedTaskList,
+  tasklist: string,
+  recreatedIds: Map<string, string>,
+  parentId?: string | null,
+  parentCopyId?: string
+): OutboxMutation[] {
+  const mutations: OutboxMutation[] = []
+  let previous: string | undefined
+  Object.values(cachedList.tasks)
+    .filter(task => (task.parent || undefined) === (parentId || undefined))
+    .sort(byPosition)
+    .forEach(task => {
+      const localId = createLocalId()
+      const params = {tasklist, parent: parentCopyId, previous, requestBody: copyTask(task)}
+      recreatedIds.set(task.id || '', localId)
+      mutations.push(
+        {kind: 'insertTask', params, localId},
+        ...restoreTasks(cachedList, tasklist, recreatedIds, task.id, localId)
+      )
+      previous = localId
+    })
+  return mutations
+}
+
+/**
+ * Task right before the given one under the same parent
+ */
+function getPreviousSibling(cachedList: CachedTaskList, task: tasks_v1.Schema$Task): string | undefined {
+  const siblings = Object.values(cachedList.tasks)
+    .filter(sibling => (sibling.parent || undefined) === (task.parent || undefined))
+    .sort(byPosition)
+  const index = siblings.findIndex(sibling => sibling.id === task.id)
+  return index > 0 ? siblings[index - 1].id || undefined : undefined
+}
+
+/**
+ * Fields carried over when a task is recreated or copied to another list
+ */
+export function copyTask(task: tasks_v1.Schema$Task): tasks_v1.Schema$Task {
+  const {title, notes, due, status, completed} = task
+  return {title, notes, due, status, ...(status === 'completed' && {completed})}
+}
+
+function byPosition(a: tasks_v1.Schema$Task, b: tasks_v1.Schema$Task): number {
+  const positionA = a.position || ''
+  const positionB = b.position || ''
+  return positionA > positionB ? 1 : positionA < positionB ? -1 : 0
+}
+
+export default new UndoManager()
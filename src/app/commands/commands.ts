@@ -1,26 +1,123 @@
-import { commands, window, ExtensionContext, Disposable } from 'vscode'
+import { commands, env, window, workspace, ConfigurationTarget, ExtensionContext, Disposable, Range, Uri, WorkspaceEdit } from 'vscode'
+import { tasks_v1 } from 'googleapis'
 
 import telemetry from '../../telemetry'
-import { removeToken } from '../Token'
+import { getAccounts, getActiveAccount, isShowingAllAccounts, removeAccount, setActiveAccount } from '../Accounts'
+import {
+  hasCustomClientCredentials,
+  removeClientCredentials,
+  storeClientCredentials,
+  validateClientCredentials,
+} from '../OAuthClient'
 import { AuthorizeGoogleTreeDataProvider } from '../TreeDataProviders/AuthorizeGoogle.TreeDataProvider'
-import initiateUserAuthorization from '../userAuthorization'
-import gTaskTreeProvider from '../TreeDataProviders/GTask/GTask.TreeDataProvider'
+import initiateUserAuthorization, { enableCalendarAccess } from '../userAuthorization'
+import { removeToken } from '../Token'
+import loadTreeData, { disposeTreeView, getTreeSelection } from '../TreeDataLoader'
+import gTaskTreeProvider, { MoveOutcome, MutationOutcome } from '../TreeDataProviders/GTask/GTask.TreeDataProvider'
+import { GAccount } from '../TreeDataProviders/GTask/GAccount.treeItem'
 import { GTaskList } from '../TreeDataProviders/GTask/GTaskList.treeItem'
 import { GTask } from '../TreeDataProviders/GTask/GTask.treeItem'
+import { CompletedTasksSection } from '../TreeDataProviders/GTask/CompletedTasks.treeItem'
 import { showScheduleDialog, confirmClearSchedule } from '../utils/ScheduleDialog'
+import { showAccountPicker } from '../utils/AccountPicker'
+import { showTaskListPicker } from '../utils/TaskListPicker'
+import { showQuickAdd } from '../utils/QuickAdd'
+import { addTaskIdToComment, parseTodoComment } from '../utils/TodoComment'
+import { showBulkResult } from '../utils/BulkResultNotification'
+import { showGoogleApiError } from '../utils/ApiErrorNotification'
+import { showUndoableMessage } from '../utils/UndoNotification'
+import undoManager from '../UndoManager'
+import taskCache from '../TaskCache'
+import taskFileSystem from '../TaskFileSystem'
 import { ScheduleWebViewProvider } from '../providers/ScheduleWebViewProvider'
 import { CalendarWebViewProvider } from '../providers/CalendarWebViewProvider'
+import { TaskEdit, TaskEditorWebViewProvider } from '../providers/TaskEditorWebViewProvider'
 
 let scheduleWebViewProvider: ScheduleWebViewProvider | undefined
 let calendarWebViewProvider: CalendarWebViewProvider | undefined
+let taskEditorWebViewProvider: TaskEditorWebViewProvider | undefined
 
 const commandsList = {
-  'googleTasks.logout': () => {
-    removeToken()
+  'googleTasks.logout': async () => {
+    const account = getActiveAccount()
+    if (account) await removeAccount(account.id)
+    if (getActiveAccount()) {
+      // Fall back to the next authorized account
+      await reloadAccount()
+      return
+    }
     commands.executeCommand('setContext', 'GoogleUserTokenExists', false)
+    disposeTreeView()
     window.registerTreeDataProvider('googleTasks', new AuthorizeGoogleTreeDataProvider())
   },
-  'googleTasks.initUserGAuth': initiateUserAuthorization,
+  'googleTasks.initUserGAuth': () => initiateUserAuthorization(),
+  'googleTasks.enableCalendar': enableCalendarAccess,
+  'googleTasks.switchAccount': async () => {
+    const picked = await showAccountPicker()
+    if (!picked) return
+
+    if (picked.type === 'addAccount') {
+      await initiateUserAuthorization()
+    } else if (picked.type === 'toggleShowAll') {
+      // The configuration listener reloads the tree
+      await workspace
+        .getConfiguration('googleTasks')
+        .update('showAllAccounts', !isShowingAllAccounts(), ConfigurationTarget.Global)
+    } else {
+      await setActiveAccount(picked.account.id)
+      await reloadAccount()
+    }
+  },
+  'googleTasks.configureClientCredentials': async () => {
+    if (hasCustomClientCredentials()) {
+      const choice = await window.showQuickPick(
+        ['Replace Client Credentials', 'Use Bundled Client Credentials'],
+        { placeHolder: 'Custom OAuth client credentials are configured' }
+      )
+      if (!choice) return
+      if (choice === 'Use Bundled Client Credentials') {
+        await removeClientCredentials()
+        await removeAllTokens()
+        await promptReauthorization('Switched back to the bundled client credentials.')
+        return
+      }
+    }
+
+    const clientId = await window.showInputBox({
+      prompt: 'Provide the OAuth client ID of your Google Cloud project (Desktop app)',
+      placeHolder: '123456789012-abc123.apps.googleusercontent.com',
+      ignoreFocusOut: true,
+      validateInput: value =>
+        /^\d+-[\w-]+\.apps\.googleusercontent\.com$/.test(value.trim())
+          ? undefined
+          : 'Expected a client ID ending in .apps.googleusercontent.com',
+    })
+    if (!clientId) return
+
+    const clientSecret = await window.showInputBox({
+      prompt: 'Provide the OAuth client secret',
+      placeHolder: 'Client secret',
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: value => (value.trim() ? undefined : 'The client secret is required'),
+    })
+    if (!clientSecret) return
+
+    const credentials = { client_id: clientId.trim(), client_secret: clientSecret.trim() }
+    try {
+      if (!(await validateClientCredentials(credentials))) {
+        window.showErrorMessage('Google rejected the client ID or secret. Please check them and try again.')
+        return
+      }
+    } catch (err) {
+      const choice = await window.showWarningMessage(`${err.message}. Save them anyway?`, 'Save', 'Cancel')
+      if (choice !== 'Save') return
+    }
+
+    await storeClientCredentials(credentials)
+    await removeAllTokens()
+    await promptReauthorization('Client credentials saved.')
+  },
   'googleTasks.showCompleted': () => {
     commands.executeCommand('setContext', 'ShowCompleted', true)
     commands.executeCommand('setContext', 'HideCompleted', false)
@@ -34,7 +131,7 @@ const commandsList = {
   'googleTasks.refresh': () => {
     gTaskTreeProvider.refresh()
   },
-  'googleTasks.addTaskList': async () => {
+  'googleTasks.addTaskList': async (node?: GAccount) => {
     const title = await window.showInputBox({
       prompt: 'Provide a title for the tasklist',
       placeHolder: 'Tasklist title',
@@ -43,10 +140,10 @@ const commandsList = {
     })
     if (title === undefined || title.length === 0) return undefined
 
-    gTaskTreeProvider.addTaskList({ requestBody: { title } })
+    gTaskTreeProvider.addTaskList({ requestBody: { title } }, node && node.account.id)
   },
   'googleTasks.deleteTaskList': async (node: GTaskList) => {
-    gTaskTreeProvider.deleteTaskList({ tasklist: node.taskList.id || undefined })
+    gTaskTreeProvider.deleteTaskList({ tasklist: node.taskList.id || undefined }, node.accountId)
   },
   'googleTasks.renameTaskList': async (node: GTaskList) => {
     if (!node.taskList.id) return
@@ -62,7 +159,53 @@ const commandsList = {
     gTaskTreeProvider.updateTaskList({
       tasklist: node.taskList.id,
       requestBody: { title },
-    })
+    }, node.accountId)
+  },
+  'googleTasks.openTaskListAsMarkdown': async (node: GTaskList) => {
+    if (!node.taskList.id) return
+
+    // Saving the checklist applies its changes to the tasks
+    const uri = await taskFileSystem.getTaskListUri(node.taskList.id, node.accountId)
+    if (uri) await window.showTextDocument(uri, { preview: false })
+  },
+  'googleTasks.openTaskListsFolder': () => {
+    const uri = taskFileSystem.getRootUri()
+    const folders = workspace.workspaceFolders || []
+    if (folders.some(folder => folder.uri.toString() === uri.toString())) {
+      commands.executeCommand('workbench.view.explorer')
+      return
+    }
+    workspace.updateWorkspaceFolders(folders.length, 0, { uri, name: 'Google Tasks' })
+  },
+  'googleTasks.clearCompleted': async (node: GTaskList | CompletedTasksSection) => {
+    let taskListIds: string[]
+    let accountId: string | undefined
+    let count: number
+    let from = ''
+    if (node instanceof CompletedTasksSection) {
+      taskListIds = Array.from(new Set(node.completedTasks.map(({ taskListId }) => taskListId)))
+      accountId = node.completedTasks.length ? node.completedTasks[0].accountId : undefined
+      count = node.completedTasks.length
+    } else {
+      if (!node.taskList.id) return
+      taskListIds = [node.taskList.id]
+      accountId = node.accountId
+      count = await gTaskTreeProvider.countCompletedTasks(node.taskList.id, accountId)
+      from = ` from "${node.taskList.title || 'No Title'}"`
+    }
+    if (!count) {
+      window.showInformationMessage(`There are no completed tasks to clear${from}.`)
+      return
+    }
+
+    const tasks = count === 1 ? '1 completed task' : `${count} completed tasks`
+    const choice = await window.showWarningMessage(`Clear ${tasks}${from}?`, { modal: true }, 'Clear')
+    if (choice !== 'Clear') return
+
+    const undo = gTaskTreeProvider.clearCompleted(taskListIds, accountId)
+    const action = await window.showInformationMessage(`Cleared ${tasks}${from}.`, 'Undo')
+    if (action === 'Undo' && !undo())
+      window.showWarningMessage('The completed tasks were already cleared in Google Tasks and can no longer be restored.')
   },
   'googleTasks.addTask': async (node: GTaskList) => {
     if (node.taskList.id === null) return
@@ -82,7 +225,82 @@ const commandsList = {
       ignoreFocusOut: true,
     })
 
-    gTaskTreeProvider.addTask({ tasklist: node.taskList.id, requestBody: { title, notes } })
+    gTaskTreeProvider.addTask({ tasklist: node.taskList.id, requestBody: { title, notes } }, node.accountId)
+  },
+  'googleTasks.quickAdd': async (node?: GTaskList) => {
+    // Without a list, e.g. from the keybinding, the task goes to the first list of the active account
+    const account = getActiveAccount()
+    const accountId = node instanceof GTaskList ? node.accountId : account && account.id
+    const taskLists = (await gTaskTreeProvider.getTaskLists(accountId)).map(({ taskList }) => taskList)
+    const defaultTaskList = (node instanceof GTaskList && node.taskList) || taskLists[0]
+    if (!defaultTaskList) {
+      window.showErrorMessage('There is no task list to add the task to. Authorize Google Tasks or add a task list first.')
+      return
+    }
+
+    const task = await showQuickAdd(taskLists, defaultTaskList)
+    if (!task || !task.taskList.id) return
+
+    const { title, due, taskList } = task
+    const outcome = await gTaskTreeProvider.addTask({ tasklist: task.taskList.id, requestBody: { title, due } }, accountId)
+    // Failures are reported by the outbox
+    if (outcome.status !== 'failed') showUndoableMessage(`Added "${title}" to "${taskList.title || 'No Title'}".`)
+  },
+  'googleTasks.createTaskFromTodo': async (uri?: Uri, line?: number) => {
+    // From the command palette, the comment is on the line of the cursor
+    const editor = window.activeTextEditor
+    const document = uri ? await workspace.openTextDocument(uri) : editor && editor.document
+    const lineNumber = line !== undefined ? line : editor && editor.selection.active.line
+    if (!document || lineNumber === undefined) return
+
+    const original = document.lineAt(lineNumber).text
+    const comment = parseTodoComment(original)
+    if (!comment) {
+      window.showWarningMessage('There is no TODO or FIXME comment on this line.')
+      return
+    }
+    if (comment.taskId) {
+      window.showInformationMessage(`A task was already created from this ${comment.keyword}.`)
+      return
+    }
+
+    const account = getActiveAccount()
+    const accountId = account && account.id
+    const taskLists = (await gTaskTreeProvider.getTaskLists(accountId)).map(({ taskList }) => taskList)
+    if (!taskLists.length) {
+      window.showErrorMessage('There is no task list to add the task to. Authorize Google Tasks or add a task list first.')
+      return
+    }
+    // The title can be adjusted, and a due date or list added, before the task is created
+    const location = `${workspace.asRelativePath(document.uri)}:${lineNumber + 1}`
+    const task = await showQuickAdd(taskLists, taskLists[0], comment.text || `${comment.keyword} in ${location}`)
+    if (!task || !task.taskList.id) return
+
+    const link = `${env.uriScheme}://file${document.uri.path}:${lineNumber + 1}:${comment.start + 1}`
+    const notes = `From ${comment.keyword} comment in ${location}\n${link}`
+    const { title, due, taskList } = task
+    const outcome = await gTaskTreeProvider.addTask({ tasklist: task.taskList.id, requestBody: { title, notes, due } }, accountId)
+    // Failures are reported by the outbox
+    if (outcome.status === 'failed') return
+
+    const listTitle = taskList.title || 'No Title'
+    if (!workspace.getConfiguration('googleTasks').get<boolean>('todoComments.addTaskId', true)) {
+      showUndoableMessage(`Added "${title}" to "${listTitle}".`)
+      return
+    }
+    if (outcome.status === 'queued') {
+      showUndoableMessage(`"${title}" will be added to "${listTitle}" once Google can be reached. The comment was left unchanged.`)
+      return
+    }
+    // The line may have been edited while the task was created
+    if (lineNumber >= document.lineCount || document.lineAt(lineNumber).text !== original) {
+      showUndoableMessage(`Added "${title}" to "${listTitle}". The comment changed meanwhile and was left unchanged.`)
+      return
+    }
+    const edit = new WorkspaceEdit()
+    edit.replace(document.uri, new Range(lineNumber, 0, lineNumber, original.length), addTaskIdToComment(original, comment, outcome.taskId))
+    await workspace.applyEdit(edit)
+    showUndoableMessage(`Added "${title}" to "${listTitle}".`)
   },
   'googleTasks.addSubTask': async (node: GTask) => {
     if (node.task.id === null) return
@@ -99,21 +317,68 @@ const commandsList = {
       tasklist: node.taskListId,
       parent: node.task.id,
       requestBody: { title },
-    })
+    }, node.accountId)
   },
-  'googleTasks.deleteTask': async (node: GTask) => {
-    if (node.task.id) gTaskTreeProvider.deleteTask({ tasklist: node.taskListId, task: node.task.id })
+  'googleTasks.deleteTask': async (node: GTask, selection?: GTask[]) => {
+    const tasks = getSelectedTasks(node, selection)
+    if (tasks.length > 1) {
+      await runBulk(withoutSelectedSubtasks(tasks), 'deleted', (group, accountId) =>
+        gTaskTreeProvider.deleteTasks(group.map(({ taskListId, task }) => ({ tasklist: taskListId, task: task.id || undefined })), accountId)
+      )
+      return
+    }
+    if (!node.task.id) return
+    const outcome = await gTaskTreeProvider.deleteTask({ tasklist: node.taskListId, task: node.task.id }, node.accountId)
+    if (outcome.status !== 'failed') showUndoableMessage(`Deleted "${node.task.title || 'No Title'}".`)
   },
-  'googleTasks.completeTask': async (node: GTask) => {
-    if (node.task.id)
-      gTaskTreeProvider.patchTask({
-        tasklist: node.taskListId,
-        task: node.task.id,
-        requestBody: {
-          status: 'completed',
-          hidden: true,
-        },
-      })
+  'googleTasks.completeTask': async (node: GTask, selection?: GTask[]) => {
+    await setCompletion(getSelectedTasks(node, selection), true)
+  },
+  'googleTasks.uncompleteTask': async (node: GTask, selection?: GTask[]) => {
+    const tasks = getSelectedTasks(node, selection).filter(({ task }) => task.status === 'completed')
+    await setCompletion(tasks, false)
+  },
+  'googleTasks.toggleTaskCompletion': async (node?: GTask, selection?: GTask[]) => {
+    // Invoked with a key, the command applies to the selection of the view
+    const selected = getTreeSelection()
+    const tasks = node ? getSelectedTasks(node, selection) : selected.filter((item): item is GTask => item instanceof GTask)
+    const completed = tasks.filter(({ task }) => task.status === 'completed')
+    const open = tasks.filter(({ task }) => task.status !== 'completed')
+    // Like a checkbox: completes the open tasks, or reopens them once all are completed
+    if (open.length) await setCompletion(open, true)
+    else await setCompletion(completed, false)
+  },
+  'googleTasks.moveTask': async (node: GTask, selection?: GTask[]) => {
+    const tasks = withoutSelectedSubtasks(getSelectedTasks(node, selection))
+    if (tasks.some(({ accountId }) => accountId !== node.accountId)) {
+      window.showErrorMessage('Tasks can only be moved between lists of the same account.')
+      return
+    }
+
+    const cached = await taskCache.get(node.accountId)
+    const sourceListIds = new Set(tasks.map(({ taskListId }) => taskListId))
+    const destination = await showTaskListPicker(
+      cached ? cached.taskLists.map(({ taskList }) => taskList) : [],
+      sourceListIds.size === 1 ? node.taskListId : undefined
+    )
+    if (!destination || !destination.id) return
+
+    const destinationId = destination.id
+    const movable = tasks.filter(({ taskListId }) => taskListId !== destinationId)
+    const move = (group: GTask[], accountId?: string) =>
+      gTaskTreeProvider.moveTasksToList(group.map(({ taskListId, task }) => ({ tasklist: taskListId, task })), destinationId, accountId)
+    if (movable.length > 1) {
+      // Moving a partly copied task again would copy its saved parts twice
+      await runBulk(movable, 'moved', move, outcome => !(outcome as MoveOutcome).copied)
+      return
+    }
+    if (!movable.length) return
+
+    const moveOne = async () => {
+      const [outcome] = await move(movable, node.accountId)
+      await showMoveResult(movable[0], destination, outcome, moveOne)
+    }
+    await moveOne()
   },
   'googleTasks.renameTask': async (node: GTask) => {
     if (!node.task.id) return
@@ -130,27 +395,46 @@ const commandsList = {
       tasklist: node.taskListId,
       task: node.task.id,
       requestBody: { title },
-    })
+    }, node.accountId)
   },
   'googleTasks.editTask': async (node: GTask) => {
-    // This is the same as renameTask - triggered on double-click
+    // Triggered on double-click
     if (!node.task.id) return
 
-    const title = await window.showInputBox({
-      prompt: 'Edit task title',
-      placeHolder: 'Task title',
-      value: node?.task?.title || undefined,
-      ignoreFocusOut: true,
-    })
-    if (title === undefined || title.length === 0) return
+    if (!taskEditorWebViewProvider) {
+      window.showErrorMessage('Task editor not initialized')
+      return
+    }
 
-    gTaskTreeProvider.patchTask({
-      tasklist: node.taskListId,
-      task: node.task.id,
-      requestBody: { title },
-    })
+    const cachedLists = await gTaskTreeProvider.getTaskLists(node.accountId)
+    const taskLists = cachedLists.map(({ taskList, tasks }) => ({
+      taskList,
+      // Only one level of subtasks is supported
+      parents: Object.values(tasks)
+        .filter(task => !task.parent && !task.deleted && !task.hidden && (task.status !== 'completed' || task.id === node.task.parent))
+        .sort((a, b) => ((a.position || '') > (b.position || '') ? 1 : -1)),
+    }))
+    const subtasks = await gTaskTreeProvider.getSubtasks(node.taskListId, node.task.id, node.accountId)
+
+    await taskEditorWebViewProvider.showEditor(
+      node.taskListId,
+      node.task,
+      { taskLists, canBeSubtask: !subtasks.length },
+      (edit) => saveTaskEdit(node, edit),
+      () => {
+        // Cancelled
+      }
+    )
   },
-  'googleTasks.setTaskSchedule': async (node: GTask) => {
+  'googleTasks.editTaskNotes': async (node: GTask) => {
+    if (!node.task.id) return
+
+    // Saving the document saves the notes
+    const uri = taskFileSystem.getNotesUri(node.taskListId, node.task.id, node.task.title, node.accountId)
+    await window.showTextDocument(uri, { preview: false })
+  },
+  'googleTasks.setTaskSchedule': async (node: GTask, selection?: GTask[]) => {
+    const tasks = getSelectedTasks(node, selection)
     if (!node.task.id) {
       window.showErrorMessage('Cannot set schedule for this task')
       return
@@ -165,14 +449,25 @@ const commandsList = {
       node.taskListId,
       node.task,
       (schedule) => {
+        const requestBody = {
+          due: schedule.dueDateTime,
+          ...(schedule.recurring && { description: `Recurring: ${schedule.recurring}` }),
+        }
+        if (tasks.length > 1) {
+          runBulk(tasks, 'scheduled', (group, accountId) =>
+            gTaskTreeProvider.patchTasks(group.map(({ taskListId, task }) => ({
+              tasklist: taskListId,
+              task: task.id || undefined,
+              requestBody,
+            })), accountId)
+          )
+          return
+        }
         gTaskTreeProvider.patchTask({
           tasklist: node.taskListId,
           task: node.task.id || '',
-          requestBody: {
-            due: schedule.dueDateTime,
-            ...(schedule.recurring && { description: `Recurring: ${schedule.recurring}` }),
-          },
-        })
+          requestBody,
+        }, node.accountId)
       },
       () => {
         // Cancelled
@@ -206,14 +501,28 @@ const commandsList = {
             due: schedule.dueDateTime,
             ...(schedule.recurring && { description: `Recurring: ${schedule.recurring}` }),
           },
-        })
+        }, node.accountId)
       },
       () => {
         // Cancelled
       }
     )
   },
-  'googleTasks.clearTaskSchedule': async (node: GTask) => {
+  'googleTasks.clearTaskSchedule': async (node: GTask, selection?: GTask[]) => {
+    const tasks = getSelectedTasks(node, selection).filter(({ task }) => task.due)
+    if (tasks.length > 1) {
+      if (!(await confirmClearSchedule(tasks.length))) return
+
+      await runBulk(tasks, 'unscheduled', (group, accountId) =>
+        gTaskTreeProvider.patchTasks(group.map(({ taskListId, task }) => ({
+          tasklist: taskListId,
+          task: task.id || undefined,
+          requestBody: { due: null },
+        })), accountId)
+      )
+      return
+    }
+
     if (!node.task.id) {
       window.showErrorMessage('Cannot clear schedule for this task')
       return
@@ -229,17 +538,20 @@ const commandsList = {
       return
     }
 
-    window.showInformationMessage(
-      `Schedule cleared for ${node.task.title || 'task'}`
-    )
-
-    gTaskTreeProvider.patchTask({
+    const outcome = await gTaskTreeProvider.patchTask({
       tasklist: node.taskListId,
       task: node.task.id,
       requestBody: {
         due: null, // Clear the due date
       },
-    })
+    }, node.accountId)
+    if (outcome.status !== 'failed') showUndoableMessage(`Schedule cleared for ${node.task.title || 'task'}`)
+  },
+  'googleTasks.undo': async (entryId?: number) => {
+    await revertChange('undo', entryId)
+  },
+  'googleTasks.redo': async () => {
+    await revertChange('redo')
   },
   'googleTasks.createTaskEvent': async (taskListNode?: GTaskList) => {
     if (!calendarWebViewProvider) {
@@ -280,13 +592,226 @@ const commandsList = {
   },
 }
 
-export function registerCommands(provider?: ScheduleWebViewProvider, calendarProvider?: CalendarWebViewProvider, context?: ExtensionContext): void {
+/**
+ * Tasks a command invoked on `node` applies to: the whole selection when the node is part of it
+ */
+function getSelectedTasks(node: GTask, selection?: GTask[]): GTask[] {
+  if (!selection || !selection.includes(node)) return [node]
+  return selection.filter((item): item is GTask => item instanceof GTask && Boolean(item.task.id))
+}
+
+/**
+ * Undo the latest change, or redo the latest undone change. With `entryId`, from the notification
+ * of a change, only that change is undone.
+ */
+async function revertChange(action: 'undo' | 'redo', entryId?: number) {
+  const latest = undoManager.peek(action)
+  // Keybindings in the view pass the focused item
+  if (typeof entryId === 'number' && (!latest || latest.id !== entryId)) {
+    window.showWarningMessage('Other changes were made since. Undo them first with "Google Tasks: Undo".')
+    return
+  }
+
+  const result = await gTaskTreeProvider.revert(action)
+  if (!result) {
+    window.showInformationMessage(action === 'undo' ? 'There is nothing to undo.' : 'There is nothing to redo.')
+    return
+  }
+
+  const { entry, outcomes } = result
+  const failed = outcomes.find(outcome => outcome.status === 'failed')
+  const done = action === 'undo' ? 'Undone' : 'Redone'
+  if (failed) {
+    showGoogleApiError(`Could not ${action} "${entry.label}"`, failed.error)
+    return
+  }
+  const redo = action === 'undo' ? ['Redo'] : []
+  const choice = await window.showInformationMessage(`${done}: ${entry.label}`, ...redo)
+  if (choice === 'Redo') commands.executeCommand('googleTasks.redo')
+}
+
+/**
+ * Complete or reopen the tasks, reporting a combined result for several tasks
+ */
+async function setCompletion(tasks: GTask[], completed: boolean) {
+  // Completed tasks stay visible in the Completed section until their list is cleared
+  const requestBody: tasks_v1.Schema$Task = completed
+    ? { status: 'completed' }
+    : { status: 'needsAction', completed: null, hidden: false }
+  if (tasks.length > 1) {
+    await runBulk(tasks, completed ? 'completed' : 'reopened', (group, accountId) =>
+      gTaskTreeProvider.patchTasks(group.map(({ taskListId, task }) => ({
+        tasklist: taskListId,
+        task: task.id || undefined,
+        requestBody,
+      })), accountId)
+    )
+    return
+  }
+  const [node] = tasks
+  if (node && node.task.id)
+    await gTaskTreeProvider.patchTask({ tasklist: node.taskListId, task: node.task.id, requestBody }, node.accountId)
+}
+
+/**
+ * Drop subtasks whose parent is selected too, they are deleted and moved along with it
+ */
+function withoutSelectedSubtasks(tasks: GTask[]): GTask[] {
+  const selectedIds = new Set(tasks.map(({ task }) => task.id))
+  return tasks.filter(({ task }) => !task.parent || !selectedIds.has(task.parent))
+}
+
+/**
+ * Apply a bulk change to the tasks of each account and report the combined result,
+ * offering to try the failed tasks again
+ */
+async function runBulk<T extends MutationOutcome>(
+  tasks: GTask[],
+  verb: string,
+  apply: (tasks: GTask[], accountId?: string) => Promise<T[]>,
+  canRetry: (outcome: T) => boolean = () => true
+) {
+  if (!tasks.length) return
+
+  const accountIds = Array.from(new Set(tasks.map(({ accountId }) => accountId)))
+  const outcomes: T[] = []
+  const failed: GTask[] = []
+  for (const accountId of accountIds) {
+    const group = tasks.filter(task => task.accountId === accountId)
+    const groupOutcomes = await apply(group, accountId)
+    outcomes.push(...groupOutcomes)
+    failed.push(...group.filter((_, index) => groupOutcomes[index].status === 'failed' && canRetry(groupOutcomes[index])))
+  }
+  await showBulkResult(verb, outcomes, failed.length ? () => runBulk(failed, verb, apply, canRetry) : undefined)
+}
+
+/**
+ * Save the fields changed in the task editor with one patch, then move the task when its parent
+ * changed. A task going to another list is copied there with the edited fields instead.
+ */
+async function saveTaskEdit(node: GTask, edit: TaskEdit) {
+  const { task } = node
+  const latestChange = undoManager.peek('undo')
+  const label = `Edit "${edit.title}"`
+
+  const requestBody: tasks_v1.Schema$Task = {}
+  if (edit.title !== (task.title || '')) requestBody.title = edit.title
+  if (edit.notes !== (task.notes || '')) requestBody.notes = edit.notes || null
+  if (edit.due !== (task.due ? task.due.split('T')[0] : undefined)) requestBody.due = edit.due ? `${edit.due}T00:00:00.000Z` : null
+  if (edit.status !== (task.status || 'needsAction')) {
+    requestBody.status = edit.status
+    if (edit.status === 'needsAction') Object.assign(requestBody, { completed: null, hidden: false })
+  }
+
+  if (edit.taskListId !== node.taskListId) {
+    const taskLists = await gTaskTreeProvider.getTaskLists(node.accountId)
+    const destination = taskLists.find(({ taskList }) => taskList.id === edit.taskListId)
+    const [outcome] = await gTaskTreeProvider.moveTasksToList(
+      [{ tasklist: node.taskListId, task: { ...task, ...requestBody } }],
+      edit.taskListId,
+      node.accountId,
+      { parent: edit.parent }
+    )
+    undoManager.combineSince(latestChange, label)
+    const retry = () => saveTaskEdit(node, edit)
+    await showMoveResult(node, destination ? destination.taskList : { title: edit.taskListId }, outcome, retry)
+    return
+  }
+
+  const outcomes: MutationOutcome[] = []
+  if (Object.keys(requestBody).length) {
+    outcomes.push(await gTaskTreeProvider.patchTask({ tasklist: node.taskListId, task: task.id || '', requestBody }, node.accountId))
+  }
+  if (edit.parent !== (task.parent || undefined)) {
+    const move = { tasklist: node.taskListId, task: task.id || undefined, parent: edit.parent }
+    outcomes.push(...(await gTaskTreeProvider.moveTasks([move], node.accountId)))
+  }
+  // Saving the editor is undone at once
+  undoManager.combineSince(latestChange, label)
+
+  const failed = outcomes.find(outcome => outcome.status === 'failed')
+  if (failed) showGoogleApiError(`Could not save "${edit.title}"`, failed.error, { retry: () => saveTaskEdit(node, edit) })
+}
+
+/**
+ * Tell how moving a task went and, when it failed midway, where its tasks were left
+ */
+async function showMoveResult(node: GTask, destination: tasks_v1.Schema$TaskList, outcome: MoveOutcome, retry: () => unknown) {
+  const title = node.task.title || 'No Title'
+  const listTitle = destination.title || 'No Title'
+  if (outcome.status === 'saved') {
+    showUndoableMessage(`Moved "${title}" to "${listTitle}".`)
+    return
+  }
+  if (outcome.status === 'queued') {
+    showUndoableMessage(`"${title}" will be moved to "${listTitle}" once Google can be reached.`)
+    return
+  }
+
+  let action = `Could not move "${title}" to "${listTitle}"`
+  if (outcome.copied === outcome.total) {
+    action = `"${title}" was copied to "${listTitle}" but the original could not be deleted`
+  } else if (outcome.copied) {
+    const missing = outcome.total - outcome.copied
+    action = `Could not move "${title}": ${missing} of its ${outcome.total} tasks were not copied to "${listTitle}", so the original was kept`
+  }
+  // Trying again once something was copied would copy it twice
+  await showGoogleApiError(action, outcome.error, { retry: outcome.copied ? undefined : retry })
+}
+
+/**
+ * Tokens are bound to the OAuth client that issued them, so changing it requires a new authorization
+ */
+/**
+ * Tokens only work with the OAuth client that issued them, so every account has to authorize
+ * again once the client changes
+ */
+async function removeAllTokens() {
+  for (const account of getAccounts()) {
+    try {
+      await removeToken(account.id)
+    } catch (err) {
+      console.error('[Token] Error removing token:', err)
+    }
+  }
+  commands.executeCommand('setContext', 'GoogleUserTokenExists', false)
+  disposeTreeView()
+  window.registerTreeDataProvider('googleTasks', new AuthorizeGoogleTreeDataProvider())
+}
+
+async function promptReauthorization(message: string) {
+  const action = await window.showInformationMessage(`${message} Authorize with Google again to use them.`, 'Authorize Google')
+  if (action === 'Authorize Google') await initiateUserAuthorization()
+}
+
+/**
+ * Load the tree and the calendar for the active account
+ */
+async function reloadAccount() {
+  await loadTreeData()
+  try {
+    const { initializeCalendarOAuth } = await import('../../extension')
+    await initializeCalendarOAuth()
+  } catch (err) {
+    console.log('Could not reinitialize calendar OAuth:', err)
+  }
+}
+
+export function registerCommands(
+  provider?: ScheduleWebViewProvider,
+  calendarProvider?: CalendarWebViewProvider,
+  context?: ExtensionContext,
+  editorProvider?: TaskEditorWebViewProvider
+): void {
   if (provider) {
     scheduleWebViewProvider = provider
   }
   if (calendarProvider) {
     calendarWebViewProvider = calendarProvider
   }
+  if (editorProvider) {
+    taskEditorWebViewProvider = editorProvider
+  }
   const disposables: Disposable[] = []
   Object.entries(commandsList).forEach(([command, handler]) => {
     const d = commands.registerCommand(command, sendTelemetry(command, handler))
@@ -5,6 +5,8 @@
 
 import { google, calendar_v3 } from 'googleapis'
 import { OAuth2Client } from 'googleapis-common'
+import { fetchAllPages, EVENTS_PAGE_SIZE } from '../utils/Pagination'
+import { callGoogleApi } from '../GoogleApi'
 
 export interface CalendarEvent {
     id?: string | null
@@ -50,16 +52,20 @@ export class CalendarProvider {
      */
     async getEventsInRange(startDate: Date, endDate: Date): Promise<CalendarEvent[]> {
         try {
-            const response = await this.calendarService.events.list({
-                calendarId: 'primary',
-                timeMin: startDate.toISOString(),
-                timeMax: endDate.toISOString(),
-                singleEvents: true,
-                orderBy: 'startTime',
-                showDeleted: false,
-            })
-
-            const events = response.data.items || []
+            const events = await fetchAllPages(pageToken =>
+                callGoogleApi(() =>
+                    this.calendarService.events.list({
+                        calendarId: 'primary',
+                        timeMin: startDate.toISOString(),
+                        timeMax: endDate.toISOString(),
+                        singleEvents: true,
+                        orderBy: 'startTime',
+                        showDeleted: false,
+                        maxResults: EVENTS_PAGE_SIZE,
+                        pageToken,
+                    })
+                )
+            )
             console.log(`[Calendar] Fetched ${events.length} events from ${startDate.toDateString()} to ${endDate.toDateString()}`)
             return events as CalendarEvent[]
         } catch (error) {
@@ -128,10 +134,12 @@ export class CalendarProvider {
                 }
             }
 
-            const response = await this.calendarService.events.insert({
-                calendarId: 'primary',
-                requestBody: event,
-            })
+            const response = await callGoogleApi(() =>
+                this.calendarService.events.insert({
+                    calendarId: 'primary',
+                    requestBody: event,
+                })
+            )
 
             console.log(`[Calendar] Created event: ${response.data.id}`)
             return response.data as CalendarEvent
@@ -161,10 +169,12 @@ export class CalendarProvider {
             console.log('[CalendarProvider] Update data:', updateData)
 
             // First get the current event
-            const currentEvent = await this.calendarService.events.get({
-                calendarId: 'primary',
-                eventId: eventId,
-            })
+            const currentEvent = await callGoogleApi(() =>
+                this.calendarService.events.get({
+                    calendarId: 'primary',
+                    eventId: eventId,
+                })
+            )
 
             const event = currentEvent.data as calendar_v3.Schema$Event
 
@@ -193,11 +203,13 @@ export class CalendarProvider {
                 }
             }
 
-            const response = await this.calendarService.events.update({
-                calendarId: 'primary',
-                eventId: eventId,
-                requestBody: event,
-            })
+            const response = await callGoogleApi(() =>
+                this.calendarService.events.update({
+                    calendarId: 'primary',
+                    eventId: eventId,
+                    requestBody: event,
+                })
+            )
 
             console.log(`[Calendar] Updated event: ${eventId}`)
             return response.data as CalendarEvent
@@ -212,10 +224,12 @@ export class CalendarProvider {
      */
     async deleteEvent(eventId: string): Promise<void> {
         try {
-            await this.calendarService.events.delete({
-                calendarId: 'primary',
-                eventId: eventId,
-            })
+            await callGoogleApi(() =>
+                this.calendarService.events.delete({
+                    calendarId: 'primary',
+                    eventId: eventId,
+                })
+            )
             console.log(`[Calendar] Deleted event: ${eventId}`)
         } catch (error) {
             console.error('[Calendar] Error deleting event:', error)
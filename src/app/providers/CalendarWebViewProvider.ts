@@ -7,8 +7,15 @@ import * as vscode from 'vscode'
 import { OAuth2Client } from 'googleapis-common'
 import CalendarProvider, { CalendarEvent } from './CalendarProvider'
 import { UnifiedItem, mergeItems, getItemsForMonth } from '../utils/UnifiedDataMerger'
-import { google } from 'googleapis'
+import { google, tasks_v1 } from 'googleapis'
 import DateTimePickerProvider from './DateTimePickerProvider'
+import { isInvalidGrantError, handleRevokedToken } from '../TokenRevocation'
+import { AuthError, callGoogleApi, NotFoundError } from '../GoogleApi'
+import { showGoogleApiError } from '../utils/ApiErrorNotification'
+import { getClientProjectNumber } from '../OAuthClient'
+import { getActiveAccount } from '../Accounts'
+import taskCache from '../TaskCache'
+import { fetchAllPages, MAX_TASK_LISTS_PAGE_SIZE, MAX_TASKS_PAGE_SIZE } from '../utils/Pagination'
 
 interface CalendarMessage {
   type: 'navigate' | 'selectDate' | 'clearDate' | 'createEvent' | 'editEvent' | 'deleteEvent' | 'refresh' | 'submitEventForm' | 'cancelEventForm'
@@ -53,6 +60,14 @@ export class CalendarWebViewProvider {
     this.calendarProvider = new CalendarProvider(oAuthClient)
   }
 
+  /**
+   * Disable the calendar, e.g. when the account has not granted calendar access
+   */
+  clearOAuthClient() {
+    this.calendarProvider = undefined
+    if (this.panel) this.panel.dispose()
+  }
+
   /**
    * Set task provider for fetching tasks with schedules
    */
@@ -111,7 +126,11 @@ export class CalendarWebViewProvider {
    */
   async showCalendar(): Promise<void> {
     if (!this.calendarProvider) {
-      vscode.window.showErrorMessage('Calendar provider not initialized')
+      const action = await vscode.window.showWarningMessage(
+        'Calendar access has not been granted for this Google account.',
+        'Enable Calendar'
+      )
+      if (action === 'Enable Calendar') vscode.commands.executeCommand('googleTasks.enableCalendar')
       return
     }
 
@@ -158,33 +177,41 @@ export class CalendarWebViewProvider {
       if (this.taskProvider && this.taskProvider.service) {
         try {
           // Get all task lists
-          const { data: listsData } = await this.taskProvider.service.tasklists.list()
-          const lists = listsData.items || []
+          const service = this.taskProvider.service
+          const lists = await fetchAllPages<tasks_v1.Schema$TaskList>(pageToken =>
+            callGoogleApi(() => service.tasklists.list({ maxResults: MAX_TASK_LISTS_PAGE_SIZE, pageToken }))
+          )
 
           // Get tasks from each list
           for (const list of lists) {
             if (list.id) {
-              const { data: tasksData } = await this.taskProvider.service.tasks.list({
-                tasklist: list.id,
-                showHidden: false,
-                showCompleted: false,
-              })
-
-              const tasks = tasksData.items || []
+              const listId = list.id
+              const tasks = await fetchAllPages<tasks_v1.Schema$Task>(pageToken =>
+                callGoogleApi(() =>
+                  service.tasks.list({
+                    tasklist: listId,
+                    showHidden: false,
+                    showCompleted: false,
+                    maxResults: MAX_TASKS_PAGE_SIZE,
+                    pageToken,
+                  })
+                )
+              )
               // Only include tasks that have a due date (scheduled tasks)
               tasks.forEach((task: any) => {
                 if (task.due || task.dueDateTime) {
                   tasksWithSchedules.push({
                     task: task,
-                    taskListId: list.id,
+                    taskListId: listId,
                   })
                 }
               })
             }
           }
         } catch (error) {
-          console.error('[Calendar] Error fetching tasks:', error)
-          // Continue without tasks if there's an error
+          console.error('[Calendar] Error fetching tasks, using cached tasks:', error)
+          // Continue with the cached tasks, if any, when Google cannot be reached
+          tasksWithSchedules = await getCachedTasksWithSchedules()
         }
       }
 
@@ -198,9 +225,10 @@ export class CalendarWebViewProvider {
 
       // Check error type
       const errorMessage = (error as any).message || String(error)
-      const errorCode = (error as any).code
 
-      if (errorMessage.includes('API has not been used') || errorMessage.includes('is disabled')) {
+      if (isInvalidGrantError(error)) {
+        await handleRevokedToken()
+      } else if (errorMessage.includes('API has not been used') || errorMessage.includes('is disabled')) {
         // Calendar API not enabled in Google Cloud Console
         const result = await vscode.window.showErrorMessage(
           'Google Calendar API is not enabled. You need to enable it in Google Cloud Console.',
@@ -211,28 +239,29 @@ export class CalendarWebViewProvider {
 
         if (result === 'Open Console') {
           const match = errorMessage.match(/project=(\d+)/)
-          const projectId = match ? match[1] : '1084099120414'
+          const projectId = match ? match[1] : getClientProjectNumber()
           vscode.env.openExternal(vscode.Uri.parse(
-            `https://console.developers.google.com/apis/api/calendar-json.googleapis.com/overview?project=${projectId}`
+            'https://console.developers.google.com/apis/api/calendar-json.googleapis.com/overview' +
+            (projectId ? `?project=${projectId}` : '')
           ))
         } else if (result === 'Learn More') {
           vscode.env.openExternal(vscode.Uri.parse(
             'https://support.google.com/googleapi/answer/6158841'
           ))
         }
-      } else if (errorMessage.includes('Insufficient Permission') || errorCode === 403) {
+      } else if (errorMessage.includes('Insufficient Permission') || error instanceof AuthError) {
         // OAuth permission error
         const result = await vscode.window.showErrorMessage(
-          'Calendar access requires additional permissions. Would you like to re-authorize?',
-          'Re-authorize',
+          'Calendar access requires additional permissions. Would you like to grant them?',
+          'Enable Calendar',
           'Cancel'
         )
 
-        if (result === 'Re-authorize') {
-          vscode.commands.executeCommand('googleTasks.initUserGAuth')
+        if (result === 'Enable Calendar') {
+          vscode.commands.executeCommand('googleTasks.enableCalendar')
         }
       } else {
-        vscode.window.showErrorMessage(`Failed to load calendar: ${errorMessage}`)
+        showGoogleApiError('Failed to load calendar', error, { retry: () => this.refreshCalendar() })
       }
     }
   }
@@ -378,8 +407,7 @@ export class CalendarWebViewProvider {
       vscode.window.showInformationMessage('Event created!')
       await this.refreshCalendar()
     } catch (error) {
-      console.error('[Calendar] Error creating event:', error)
-      vscode.window.showErrorMessage(`Failed to create event: ${error}`)
+      showGoogleApiError('Failed to create event', error)
     }
   }
 
@@ -439,8 +467,7 @@ export class CalendarWebViewProvider {
       vscode.window.showInformationMessage('Event updated!')
       await this.refreshCalendar()
     } catch (error) {
-      console.error('[Calendar] Error updating event:', error)
-      vscode.window.showErrorMessage(`Failed to update event: ${error}`)
+      showGoogleApiError('Failed to update event', error)
     }
   }
 
@@ -462,8 +489,7 @@ export class CalendarWebViewProvider {
         vscode.window.showInformationMessage('Event deleted!')
         await this.refreshCalendar()
       } catch (error) {
-        console.error('[Calendar] Error deleting event:', error)
-        vscode.window.showErrorMessage(`Failed to delete event: ${error}`)
+        showGoogleApiError('Failed to delete event', error)
       }
     }
   }
@@ -493,8 +519,7 @@ export class CalendarWebViewProvider {
       vscode.window.showInformationMessage('Event created!')
       await this.refreshCalendar()
     } catch (error) {
-      console.error('[Calendar] Error creating event:', error)
-      vscode.window.showErrorMessage(`Failed to create event: ${error}`)
+      showGoogleApiError('Failed to create event', error)
     }
   }
 
@@ -526,7 +551,8 @@ export class CalendarWebViewProvider {
         return
       }
 
-      const { data } = await service.tasklists.list()
+      // Only the first (default) list is needed
+      const { data } = await callGoogleApi(() => service.tasklists.list({ maxResults: 1 }))
       const taskLists = data.items || []
 
       if (taskLists.length === 0) {
@@ -552,8 +578,7 @@ export class CalendarWebViewProvider {
       vscode.window.showInformationMessage(`Task created in ${taskLists[0].title}!`)
       await this.refreshCalendar()
     } catch (error) {
-      console.error('[Calendar] Error creating task:', error)
-      vscode.window.showErrorMessage(`Failed to create task: ${error}`)
+      showGoogleApiError('Failed to create task', error)
     }
   }
 
@@ -586,8 +611,7 @@ export class CalendarWebViewProvider {
       vscode.window.showInformationMessage('Event updated!')
       await this.refreshCalendar()
     } catch (error) {
-      console.error('[Calendar] Error updating event:', error)
-      vscode.window.showErrorMessage(`Failed to update event: ${error}`)
+      showGoogleApiError('Failed to update event', error)
     }
   }
 
@@ -619,21 +643,23 @@ export class CalendarWebViewProvider {
       if (taskListId) {
         try {
           console.log('[Calendar] Updating task directly with parameters:', { tasklist: taskListId, task: taskId })
-          const response = await this.taskProvider.service.tasks.patch({
-            tasklist: taskListId,
-            task: taskId,
-            requestBody: {
-              title: formData.title,
-              due: dueDate
-            }
-          })
+          const service = this.taskProvider.service
+          const response = await callGoogleApi(() =>
+            service.tasks.patch({
+              tasklist: taskListId,
+              task: taskId,
+              requestBody: {
+                title: formData.title,
+                due: dueDate
+              }
+            })
+          )
           console.log('[Calendar] Task update response:', response)
           vscode.window.showInformationMessage('Task updated!')
           await this.refreshCalendar()
           return
         } catch (error) {
           console.error('[Calendar] Error updating task with known list ID:', error)
-          console.error('[Calendar] Error details:', (error as any).response?.data || (error as any).message)
           // Fall through to search all lists
         }
       }
@@ -642,30 +668,33 @@ export class CalendarWebViewProvider {
       // Search through all lists to find the task
       if (this.taskProvider && this.taskProvider.service) {
         try {
-          const { data: listsData } = await this.taskProvider.service.tasklists.list()
-          const lists = listsData.items || []
+          const service = this.taskProvider.service
+          const lists = await fetchAllPages<tasks_v1.Schema$TaskList>(pageToken =>
+            callGoogleApi(() => service.tasklists.list({ maxResults: MAX_TASK_LISTS_PAGE_SIZE, pageToken }))
+          )
 
           for (const list of lists) {
             if (list.id) {
               try {
                 console.log('[Calendar] Trying to update task in list:', list.title || list.id)
-                const response = await this.taskProvider.service.tasks.patch({
-                  tasklist: list.id,
-                  task: taskId,
-                  requestBody: {
-                    title: formData.title,
-                    due: dueDate
-                  }
-                })
+                const listId = list.id
+                await callGoogleApi(() =>
+                  service.tasks.patch({
+                    tasklist: listId,
+                    task: taskId,
+                    requestBody: {
+                      title: formData.title,
+                      due: dueDate
+                    }
+                  })
+                )
                 console.log('[Calendar] Task update successful')
                 vscode.window.showInformationMessage('Task updated!')
                 await this.refreshCalendar()
                 return
               } catch (error) {
                 // Task not in this list, continue to next list
-                const errorCode = (error as any).code || (error as any).status
-                const errorMessage = (error as any).message || String(error)
-                if (errorCode !== 404 && !errorMessage.includes('not found')) {
+                if (!(error instanceof NotFoundError)) {
                   console.error('[Calendar] Error updating task in list:', list.title, error)
                 }
               }
@@ -675,13 +704,11 @@ export class CalendarWebViewProvider {
           // If we get here, task was not found
           vscode.window.showWarningMessage('Task not found in any list')
         } catch (error) {
-          console.error('[Calendar] Error updating task:', error)
-          vscode.window.showErrorMessage(`Failed to update task: ${error}`)
+          showGoogleApiError('Failed to update task', error)
         }
       }
     } catch (error) {
-      console.error('[Calendar] Error updating task:', error)
-      vscode.window.showErrorMessage(`Failed to update task: ${error}`)
+      showGoogleApiError('Failed to update task', error)
     }
   }
 
@@ -1952,3 +1979,21 @@ export class CalendarWebViewProvider {
 }
 
 export default CalendarWebViewProvider
+
+/**
+ * Scheduled, open tasks of the active account from the local task cache
+ */
+async function getCachedTasksWithSchedules(): Promise<Array<{ task: tasks_v1.Schema$Task; taskListId: string }>> {
+  const account = getActiveAccount()
+  const cached = await taskCache.get(account && account.id)
+  if (!cached) return []
+
+  const tasksWithSchedules: Array<{ task: tasks_v1.Schema$Task; taskListId: string }> = []
+  cached.taskLists.forEach(({ taskList, tasks }) => {
+    Object.values(tasks).forEach(task => {
+      if (task.status === 'completed' || task.hidden) return
+      if (task.due) tasksWithSchedules.push({ task, taskListId: taskList.id || '' })
+    })
+  })
+  return tasksWithSchedules
+}
@@ -0,0 +1,433 @@
+/**
+ * WebView provider for the task editor
+ * Edits all fields of a task in one form: title, notes, due date, status, parent task and list
+ */
+
+import * as vscode from 'vscode'
+import { tasks_v1 } from 'googleapis'
+
+export interface TaskEdit {
+    title: string
+    notes: string
+    due?: string // YYYY-MM-DD format, undefined for no due date
+    status: 'needsAction' | 'completed'
+    parent?: string // undefined for a top-level task
+    taskListId: string
+}
+
+export interface TaskEditorMessage {
+    type: 'save' | 'cancel' | 'openLink' | 'error'
+    edit?: TaskEdit
+    url?: string
+    message?: string
+}
+
+export interface TaskEditorOptions {
+    // Lists the task can be moved to, with the tasks it can become a subtask of
+    taskLists: Array<{ taskList: tasks_v1.Schema$TaskList; parents: tasks_v1.Schema$Task[] }>
+    // Tasks with subtasks cannot become subtasks themselves
+    canBeSubtask: boolean
+}
+
+export class TaskEditorWebViewProvider {
+    private panel?: vscode.WebviewPanel
+    private onSaveCallback?: (edit: TaskEdit) => void
+    private onCancelCallback?: () => void
+
+    constructor(private readonly context: vscode.ExtensionContext) { }
+
+    /**
+     * Show the editor for a task
+     */
+    async showEditor(
+        taskListId: string,
+        task: tasks_v1.Schema$Task,
+        options: TaskEditorOptions,
+        onSave: (edit: TaskEdit) => void,
+        onCancel: () => void
+    ): Promise<void> {
+        this.onSaveCallback = onSave
+        this.onCancelCallback = onCancel
+
+        if (!this.panel) {
+            // Create new panel if it doesn't exist
+            this.panel = vscode.window.createWebviewPanel(
+                'taskEditor',
+                'Edit Task',
+                vscode.ViewColumn.Beside,
+                {
+                    enableScripts: true,
+                    retainContextWhenHidden: true,
+                }
+            )
+            this.setupWebViewMessageHandling(this.panel)
+
+            // Handle panel disposal
+            this.panel.onDidDispose(() => {
+                this.panel = undefined
+            })
+        }
+
+        this.panel.title = `Edit: ${task.title || 'No Title'}`
+        this.panel.webview.html = this.getWebViewContent(taskListId, task, options)
+        this.panel.reveal()
+    }
+
+    /**
+     * Setup message passing between extension and WebView
+     */
+    private setupWebViewMessageHandling(panel: vscode.WebviewPanel): void {
+        panel.webview.onDidReceiveMessage((message: TaskEditorMessage) => {
+            switch (message.type) {
+                case 'save':
+                    if (message.edit && this.onSaveCallback) {
+                        this.onSaveCallback(message.edit)
+                        panel.dispose()
+                    }
+                    break
+
+                case 'cancel':
+                    if (this.onCancelCallback) {
+                        this.onCancelCallback()
+                    }
+                    panel.dispose()
+                    break
+
+                case 'openLink':
+                    if (message.url) vscode.env.openExternal(vscode.Uri.parse(message.url))
+                    break
+
+                case 'error':
+                    vscode.window.showErrorMessage(`Task editor error: ${message.message}`)
+                    break
+            }
+        })
+    }
+
+    /**
+     * Generate WebView HTML content with embedded CSS and JavaScript
+     */
+    private getWebViewContent(taskListId: string, task: tasks_v1.Schema$Task, options: TaskEditorOptions): string {
+        const due = task.due ? task.due.split('T')[0] : ''
+        const listOptions = options.taskLists
+            .map(({ taskList }) => {
+                const selected = taskList.id === taskListId ? ' selected' : ''
+                return `<option value="${this.escapeHtml(taskList.id || '')}"${selected}>${this.escapeHtml(taskList.title || 'No Title')}</option>`
+            })
+            .join('')
+        // Parent candidates of each list, for the script to offer when the list changes
+        const parents: { [taskListId: string]: Array<{ id: string; title: string }> } = {}
+        options.taskLists.forEach(({ taskList, parents: candidates }) => {
+            parents[taskList.id || ''] = candidates
+                .filter(candidate => candidate.id && candidate.id !== task.id)
+                .map(candidate => ({ id: candidate.id || '', title: candidate.title || 'No Title' }))
+        })
+        const links = (task.links || [])
+            .filter(link => link.link)
+            .map(link => `<li><a href="#" data-url="${this.escapeHtml(link.link || '')}">${this.escapeHtml(link.description || link.link || '')}</a>${link.type ? ` <span class="link-type">${this.escapeHtml(link.type)}</span>` : ''}</li>`)
+            .join('')
+        const timestamps = [
+            task.updated ? `Updated ${this.escapeHtml(new Date(task.updated).toLocaleString())}` : '',
+            task.completed ? `Completed ${this.escapeHtml(new Date(task.completed).toLocaleString())}` : '',
+        ].filter(Boolean).join(' · ')
+
+        return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Edit Task</title>
+        <style>
+          * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+          }
+
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            background: var(--vscode-editor-background);
+            color: var(--vscode-editor-foreground);
+            padding: 16px;
+            line-height: 1.6;
+          }
+
+          .container {
+            max-width: 480px;
+            margin: 0 auto;
+          }
+
+          .header {
+            margin-bottom: 24px;
+            border-bottom: 1px solid var(--vscode-widget-border, rgba(255, 255, 255, 0.1));
+            padding-bottom: 12px;
+          }
+
+          .header h1 {
+            font-size: 18px;
+            font-weight: 600;
+            margin-bottom: 4px;
+          }
+
+          .timestamps {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+          }
+
+          .form-group {
+            margin-bottom: 20px;
+          }
+
+          .form-group label {
+            display: block;
+            font-size: 12px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+            margin-bottom: 8px;
+            color: var(--vscode-descriptionForeground);
+          }
+
+          .form-row {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 8px;
+          }
+
+          input[type="text"],
+          input[type="date"],
+          textarea,
+          select {
+            width: 100%;
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, rgba(255, 255, 255, 0.1));
+            border-radius: 4px;
+            padding: 8px 12px;
+            font-size: 13px;
+            font-family: inherit;
+          }
+
+          textarea {
+            min-height: 140px;
+            resize: vertical;
+          }
+
+          input:focus,
+          textarea:focus,
+          select:focus {
+            outline: none;
+            border-color: var(--vscode-focusBorder, #007acc);
+            box-shadow: 0 0 0 1px var(--vscode-focusBorder, #007acc);
+          }
+
+          .checkbox {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            font-size: 13px;
+          }
+
+          .links {
+            list-style: none;
+            font-size: 13px;
+          }
+
+          .links a {
+            color: var(--vscode-textLink-foreground);
+          }
+
+          .link-type {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+          }
+
+          .button-group {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 8px;
+            margin-top: 24px;
+          }
+
+          button {
+            border-radius: 4px;
+            padding: 10px 16px;
+            font-size: 13px;
+            font-weight: 600;
+            cursor: pointer;
+          }
+
+          button.save {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+          }
+
+          button.save:hover {
+            background: var(--vscode-button-hoverBackground);
+          }
+
+          button.cancel {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: 1px solid var(--vscode-widget-border, rgba(255, 255, 255, 0.1));
+          }
+
+          .error {
+            color: var(--vscode-errorForeground);
+            font-size: 12px;
+            margin-top: 4px;
+            display: none;
+          }
+
+          .error.show {
+            display: block;
+          }
+
+          .info-text {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-top: 8px;
+            opacity: 0.7;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>✏️ Edit Task</h1>
+            <div class="timestamps">${timestamps}</div>
+          </div>
+
+          <div class="form-group">
+            <label for="titleInput">Title</label>
+            <input type="text" id="titleInput" value="${this.escapeHtml(task.title || '')}">
+          </div>
+
+          <div class="form-group">
+            <label for="notesInput">Notes</label>
+            <textarea id="notesInput">${this.escapeHtml(task.notes || '')}</textarea>
+          </div>
+
+          <div class="form-group form-row">
+            <div>
+              <label for="dueInput">📅 Due Date</label>
+              <input type="date" id="dueInput" value="${due}">
+            </div>
+            <div>
+              <label>Status</label>
+              <div class="checkbox">
+                <input type="checkbox" id="completedInput"${task.status === 'completed' ? ' checked' : ''}>
+                <span>Completed</span>
+              </div>
+            </div>
+          </div>
+
+          <div class="form-group form-row">
+            <div>
+              <label for="listSelect">List</label>
+              <select id="listSelect">${listOptions}</select>
+            </div>
+            <div>
+              <label for="parentSelect">Subtask Of</label>
+              <select id="parentSelect"${options.canBeSubtask ? '' : ' disabled'}></select>
+            </div>
+          </div>
+          ${options.canBeSubtask ? '' : '<div class="info-text">Tasks with subtasks cannot become subtasks themselves.</div>'}
+
+          ${links ? `<div class="form-group"><label>Links</label><ul class="links">${links}</ul></div>` : ''}
+
+          <div id="error" class="error"></div>
+
+          <div class="button-group">
+            <button class="save" onclick="saveTask()">Save Task</button>
+            <button class="cancel" onclick="cancelEdit()">Cancel</button>
+          </div>
+          <div class="info-text">Ctrl+Enter saves, Escape cancels.</div>
+        </div>
+
+        <script>
+          const vscode = acquireVsCodeApi();
+          const parents = ${JSON.stringify(parents).replace(/</g, '\\u003c')};
+          const currentParent = ${JSON.stringify(task.parent || '')};
+
+          function updateParents() {
+            const select = document.getElementById('parentSelect');
+            const candidates = parents[document.getElementById('listSelect').value] || [];
+            select.innerHTML = '';
+            select.appendChild(new Option('None (top-level task)', ''));
+            candidates.forEach(candidate => {
+              select.appendChild(new Option(candidate.title, candidate.id, false, candidate.id === currentParent));
+            });
+          }
+
+          function saveTask() {
+            const title = document.getElementById('titleInput').value.trim();
+            if (!title) {
+              showError('Please provide a title');
+              return;
+            }
+
+            vscode.postMessage({
+              type: 'save',
+              edit: {
+                title: title,
+                notes: document.getElementById('notesInput').value,
+                due: document.getElementById('dueInput').value || undefined,
+                status: document.getElementById('completedInput').checked ? 'completed' : 'needsAction',
+                parent: document.getElementById('parentSelect').value || undefined,
+                taskListId: document.getElementById('listSelect').value,
+              },
+            });
+          }
+
+          function cancelEdit() {
+            vscode.postMessage({type: 'cancel'});
+          }
+
+          function showError(message) {
+            const errorEl = document.getElementById('error');
+            errorEl.textContent = message;
+            errorEl.classList.add('show');
+            setTimeout(() => {
+              errorEl.classList.remove('show');
+            }, 3000);
+          }
+
+          document.getElementById('listSelect').addEventListener('change', updateParents);
+          document.querySelectorAll('.links a').forEach(link => {
+            link.addEventListener('click', (e) => {
+              e.preventDefault();
+              vscode.postMessage({type: 'openLink', url: link.dataset.url});
+            });
+          });
+
+          updateParents();
+          document.getElementById('titleInput').focus();
+
+          // Handle keyboard
+          document.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter' && e.ctrlKey) {
+              saveTask();
+            } else if (e.key === 'Escape') {
+              cancelEdit();
+            }
+          });
+        </script>
+      </body>
+      </html>
+    `
+    }
+
+    private escapeHtml(text: string): string {
+        const map: { [key: string]: string } = {
+            '&': '&amp;',
+            '<': '&lt;',
+            '>': '&gt;',
+            '"': '&quot;',
+            "'": '&#039;',
+        }
+        return text.replace(/[&<>"']/g, m => map[m])
+    }
+}
@@ -0,0 +1,35 @@
+/**
+ * Code action provider for TODO and FIXME comments
+ * Offers to create a Google Task from the comments not imported yet
+ */
+
+import * as vscode from 'vscode'
+
+import { parseTodoComment } from '../utils/TodoComment'
+
+export class TodoCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+
+    /**
+     * One action for each comment of the selected lines
+     */
+    provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = []
+        for (let line = range.start.line; line <= range.end.line; line++) {
+            const comment = parseTodoComment(document.lineAt(line).text)
+            if (!comment || comment.taskId) continue
+
+            const action = new vscode.CodeAction(
+                `Create Google Task from ${comment.keyword}`,
+                vscode.CodeActionKind.QuickFix
+            )
+            action.command = {
+                title: action.title,
+                command: 'googleTasks.createTaskFromTodo',
+                arguments: [document.uri, line],
+            }
+            actions.push(action)
+        }
+        return actions
+    }
+}
@@ -1,34 +1,126 @@
 import * as http from 'http'
-import {EventEmitter} from 'events'
-
-export default function getOAuthCode(): Promise<string> {
-  return new Promise(async (resolve, reject) => {
-    const stopServer$ = new EventEmitter()
-
-    const server = http
-      .createServer((req, res) => {
-        res.setHeader('Content-Type', 'text/html')
-        try {
-          if (!req.url) throw new Error()
-          const code = req.url.split('code=')[1].split('&')[0] // extracting the value present in the query param `code`
-          if (!code) throw new Error()
-          res.writeHead(200).end('<h1>This tab can be closed now</h1><h2>Please check the VS Code window</h2>')
-          resolve(code)
-        } catch (err) {
-          res.writeHead(400).end('<h1>Unable to get OAuth <i>code</i></h1><h1>Please try again</h2>')
-          // TODO: check error message in browser for this scenario
-          reject()
-        }
-        stopServer$.emit('stopped')
-      })
-      .listen(11223)
+import {AddressInfo} from 'net'
+import {URL, URLSearchParams} from 'url'
+
+const LOOPBACK_HOST = '127.0.0.1'
+
+export interface OAuthCodeListenerOptions {
+  // Value of the `state` parameter sent with the authorization request
+  state: string
+  // Milliseconds to wait for the redirect before giving up
+  timeout: number
+}
+
+export interface OAuthCodeListener {
+  // Redirect URI to send with the authorization request, pointing at the listener
+  redirectUri: string
+  // Resolves with the authorization code of the first valid redirect
+  code: Promise<string>
+  // Stop listening and reject a pending `code`
+  close(): void
+}
 
-    // TODO: handle server port unavailable scenario
+/**
+ * Start a loopback server on a free port that receives the OAuth redirect.
+ * The server stops after the first redirect, on timeout, or when closed.
+ */
+export default function startOAuthCodeListener(options: OAuthCodeListenerOptions): Promise<OAuthCodeListener> {
+  return new Promise((resolveListener, rejectListener) => {
+    let resolveCode: (code: string) => void
+    let rejectCode: (err: Error) => void
+    const code = new Promise<string>((resolve, reject) => {
+      resolveCode = resolve
+      rejectCode = reject
+    })
+    // Avoid an unhandled rejection when nobody is waiting for the code anymore
+    code.catch(() => undefined)
 
-    stopServer$.on('stopped', () => {
+    let finished = false
+    let timer: NodeJS.Timeout | undefined
+    const finish = (err: Error | undefined, value?: string) => {
+      if (finished) return
+      finished = true
+      if (timer) clearTimeout(timer)
       console.log('Stopping server...')
       server.close()
-      stopServer$.removeAllListeners()
+      if (err) rejectCode(err)
+      else resolveCode(value as string)
+    }
+
+    const server = http.createServer((req, res) => {
+      res.setHeader('Content-Type', 'text/html')
+      // Do not keep browser connections alive, so closing the server is not held up
+      res.setHeader('Connection', 'close')
+      const url = new URL(req.url || '/', `http://${LOOPBACK_HOST}`)
+      // Browsers also ask for e.g. /favicon.ico; only the redirect to the root counts
+      if (url.pathname !== '/') {
+        res.writeHead(404).end()
+        return
+      }
+
+      let authorizationCode: string
+      try {
+        authorizationCode = readAuthorizationCode(url.searchParams, options.state)
+      } catch (err) {
+        const error = url.searchParams.get('error')
+        if (error === 'access_denied') {
+          res.writeHead(200).end(page('Authorization was cancelled', 'You can close this tab and try again from VS Code.'))
+        } else if (error) {
+          res.writeHead(400).end(page('Authorization failed', `Google returned the error <i>${escapeHtml(error)}</i>.`))
+        } else {
+          res.writeHead(400).end(page('Unable to get OAuth <i>code</i>', 'Please try again from VS Code.'))
+        }
+        finish(err)
+        return
+      }
+      res.writeHead(200).end(page('This tab can be closed now', 'Please check the VS Code window'))
+      finish(undefined, authorizationCode)
+    })
+
+    server.on('error', err => {
+      if (server.listening) finish(err)
+      else rejectListener(err)
+    })
+
+    // Port 0 lets the OS pick a free port
+    server.listen(0, LOOPBACK_HOST, () => {
+      const {port} = server.address() as AddressInfo
+      timer = setTimeout(() => finish(new Error('Timed out waiting for Google authorization')), options.timeout)
+      resolveListener({
+        redirectUri: `http://${LOOPBACK_HOST}:${port}`,
+        code,
+        close: () => finish(new Error('Authorization was cancelled')),
+      })
     })
   })
 }
+
+/**
+ * Extract the authorization code from the query of an OAuth redirect, verifying
+ * that it answers the request with the given `state`
+ */
+export function readAuthorizationCode(query: URLSearchParams, state: string): string {
+  const error = query.get('error')
+  const authorizationCode = query.get('code')
+
+  if (error === 'access_denied') throw new Error('Authorization was denied in the browser')
+  if (error) throw new Error(`Authorization failed: ${error}`)
+  if (query.get('state') !== state) throw new Error('Authorization response state does not match the request')
+  if (!authorizationCode) throw new Error('Authorization response does not contain a code')
+  return authorizationCode
+}
+
+function page(heading: string, message: string): string {
+  return `<h1>${heading}</h1><h2>${message}</h2>`
+}
+
+function escapeHtml(text: string): string {
+  const map: {[key: string]: string} = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  }
+  return text.replace(/[&<>"']/g, m => map[m])
+}
@@ -0,0 +1,74 @@
+'use strict'
+
+import * as vscode from 'vscode'
+import {URLSearchParams} from 'url'
+
+import {extensionQualifiedId} from '../Constants'
+import {OAuthCodeListener, OAuthCodeListenerOptions, readAuthorizationCode} from './server'
+
+const AUTHORIZE_PATH = '/authorize'
+
+interface PendingAuthorization {
+  state: string
+  resolve: (code: string) => void
+  reject: (err: Error) => void
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Receives the OAuth redirect through a `vscode://` URI, which also reaches the
+ * extension when VS Code runs remotely or in the browser
+ */
+class AuthorizationUriHandler implements vscode.UriHandler {
+  private pending?: PendingAuthorization
+
+  handleUri(uri: vscode.Uri) {
+    if (uri.path !== AUTHORIZE_PATH || !this.pending) return
+
+    const pending = this.pending
+    this.pending = undefined
+    clearTimeout(pending.timer)
+    try {
+      pending.resolve(readAuthorizationCode(new URLSearchParams(uri.query), pending.state))
+    } catch (err) {
+      pending.reject(err)
+    }
+  }
+
+  /**
+   * Wait for the redirect of the authorization request with the given `state`.
+   * A previous authorization still waiting is cancelled.
+   */
+  async listen(options: OAuthCodeListenerOptions): Promise<OAuthCodeListener> {
+    this.cancel(new Error('Authorization was cancelled'))
+
+    const callbackUri = await vscode.env.asExternalUri(
+      vscode.Uri.parse(`${vscode.env.uriScheme}://${extensionQualifiedId}${AUTHORIZE_PATH}`)
+    )
+    let pending: PendingAuthorization | undefined
+    const code = new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.cancel(new Error('Timed out waiting for Google authorization'), pending),
+        options.timeout
+      )
+      pending = this.pending = {state: options.state, resolve, reject, timer}
+    })
+    // Avoid an unhandled rejection when nobody is waiting for the code anymore
+    code.catch(() => undefined)
+
+    return {
+      redirectUri: callbackUri.toString(true),
+      code,
+      close: () => this.cancel(new Error('Authorization was cancelled'), pending),
+    }
+  }
+
+  private cancel(err: Error, pending: PendingAuthorization | undefined = this.pending) {
+    if (!pending || pending !== this.pending) return
+    this.pending = undefined
+    clearTimeout(pending.timer)
+    pending.reject(err)
+  }
+}
+
+export default new AuthorizationUriHandler()
@@ -1,50 +1,270 @@
 'use strict'
 
+import * as crypto from 'crypto'
+import { URL } from 'url'
 import * as vscode from 'vscode'
+import { google } from 'googleapis'
 import { OAuth2Client } from 'googleapis-common'
+import { CodeChallengeMethod, Credentials } from 'google-auth-library'
 
 import loadTreeData from './TreeDataLoader'
 import getOAuthClient from './OAuthClient'
 import { storeToken } from './Token'
-import getOAuthCode from './server'
+import {
+  AccountProfile,
+  createAccountId,
+  findAccountByEmail,
+  getActiveAccount,
+  saveAccount,
+  setActiveAccount,
+} from './Accounts'
+import { CALENDAR_SCOPE, EMAIL_SCOPE, TASKS_SCOPE, hasCalendarScope } from './Scopes'
+import startOAuthCodeListener, { OAuthCodeListener, OAuthCodeListenerOptions, readAuthorizationCode } from './server'
+import authorizationUriHandler from './uriHandler'
 
-export default async function initiateUserAuthorization() {
+type AuthorizationFlow = 'loopback' | 'uriHandler' | 'manual'
+
+// Loopback address without a listener: the browser fails to load it, but shows the code in the address bar
+const MANUAL_REDIRECT_URI = 'http://127.0.0.1'
+const ENTER_CODE_MANUALLY = 'Enter Code Manually'
+
+/**
+ * Google refused to redirect to the extension, e.g. because the OAuth client does not allow the redirect URI
+ */
+class RedirectRejectedError extends Error {
+  constructor(message: string = 'Google did not redirect back to VS Code') {
+    super(message)
+    this.name = 'RedirectRejectedError'
+  }
+}
+
+interface AuthorizationRequest {
+  scopes: string[]
+  // Keep the scopes granted earlier and only ask for the new ones
+  includeGrantedScopes?: boolean
+  // Email of the Google account to preselect
+  loginHint?: string
+}
+
+/**
+ * Authorize a Google account. Calendar access is requested when `includeCalendar`
+ * is set, or by default unless disabled with `googleTasks.requestCalendarAccess`.
+ */
+export default async function initiateUserAuthorization(options: { includeCalendar?: boolean } = {}) {
+  try {
+    const oAuth2Client = getOAuthClient()
+    const includeCalendar =
+      options.includeCalendar !== undefined
+        ? options.includeCalendar
+        : vscode.workspace.getConfiguration('googleTasks').get<boolean>('requestCalendarAccess', true)
+    const scopes = [TASKS_SCOPE, EMAIL_SCOPE, ...(includeCalendar ? [CALENDAR_SCOPE] : [])]
+    const tokens = await getOAuthCodeFromUser(oAuth2Client, { scopes })
+    await loadTreeData()
+    await reinitializeCalendar(tokens)
+  } catch (error) {
+    vscode.window.showErrorMessage('Error in user authorization')
+    console.error(error)
+  }
+}
+
+/**
+ * Grant calendar access to the active account on top of its Tasks access
+ */
+export async function enableCalendarAccess() {
   try {
     const oAuth2Client = getOAuthClient()
-    const SCOPES = [
-      'https://www.googleapis.com/auth/tasks',
-      'https://www.googleapis.com/auth/calendar'
-    ]
-    const authUrl = oAuth2Client.generateAuthUrl({
-      access_type: 'offline',
-      scope: SCOPES,
-      prompt: 'consent'  // Force showing consent screen with all permissions
+    const account = getActiveAccount()
+    const tokens = await getOAuthCodeFromUser(oAuth2Client, {
+      scopes: [CALENDAR_SCOPE],
+      includeGrantedScopes: true,
+      loginHint: account && account.email,
     })
-    await getOAuthCodeFromUser(authUrl, oAuth2Client)
-    loadTreeData()
+    await loadTreeData()
+    await reinitializeCalendar(tokens)
+  } catch (error) {
+    vscode.window.showErrorMessage('Error in enabling calendar access')
+    console.error(error)
+  }
+}
 
-    // Reinitialize Calendar OAuth after authorization
-    try {
-      const { initializeCalendarOAuth } = await import('../extension')
-      initializeCalendarOAuth()
+async function reinitializeCalendar(tokens: Credentials) {
+  // Reinitialize Calendar OAuth after authorization
+  try {
+    const { initializeCalendarOAuth } = await import('../extension')
+    await initializeCalendarOAuth()
+    if (hasCalendarScope(tokens))
       vscode.window.showInformationMessage('Calendar access granted! You can now open the calendar view.')
-    } catch (err) {
-      console.log('Could not reinitialize calendar OAuth:', err)
+  } catch (err) {
+    console.log('Could not reinitialize calendar OAuth:', err)
+  }
+}
+
+async function getOAuthCodeFromUser(oAuth2Client: OAuth2Client, request: AuthorizationRequest): Promise<Credentials> {
+  try {
+    const flow = getAuthorizationFlow()
+    let authorization: { code: string; codeVerifier: string; redirectUri: string }
+    try {
+      authorization = await authorizeInBrowser(oAuth2Client, request, flow)
+    } catch (error) {
+      // Offer to paste the code when the redirect could not reach the extension
+      if (flow === 'manual' || /denied/.test(getErrorMessage(error))) throw error
+      if (!isRedirectError(error)) {
+        const action = await vscode.window.showErrorMessage(
+          'Error in authorization: ' + (getErrorMessage(error) || 'Unknown error'),
+          ENTER_CODE_MANUALLY
+        )
+        if (action !== ENTER_CODE_MANUALLY) throw new Error('Authorization was cancelled')
+      }
+      authorization = await authorizeInBrowser(oAuth2Client, request, 'manual')
     }
+
+    const { code, codeVerifier, redirectUri } = authorization
+    const { tokens } = await oAuth2Client.getToken({ code, codeVerifier, redirect_uri: redirectUri })
+    oAuth2Client.setCredentials(tokens)
+    const account = await getAccountProfile(oAuth2Client)
+    await storeToken(tokens, account.id)
+    await saveAccount(account)
+    await setActiveAccount(account.id)
+    return tokens
   } catch (error) {
-    vscode.window.showErrorMessage('Error in user authorization')
-    console.error(error)
+    vscode.window.showErrorMessage('Error in authorization: ' + (getErrorMessage(error) || 'Unknown error'))
+    throw new Error()
   }
 }
 
-async function getOAuthCodeFromUser(authUrl: string, oAuth2Client: OAuth2Client) {
+/**
+ * Send the user to the Google consent page and wait for the authorization code
+ */
+async function authorizeInBrowser(oAuth2Client: OAuth2Client, request: AuthorizationRequest, flow: AuthorizationFlow) {
+  const state = crypto.randomBytes(16).toString('hex')
+  const { codeVerifier, codeChallenge } = await oAuth2Client.generateCodeVerifierAsync()
+  const listener = await listenForOAuthCode(flow, { state, timeout: getAuthorizationTimeout() })
+  // Google only accepts https and loopback redirects, while a vscode:// URI is only turned into an
+  // https address when VS Code runs on the web
+  if (flow === 'uriHandler' && !listener.redirectUri.startsWith('https:')) {
+    listener.close()
+    vscode.window.showWarningMessage(
+      'Google cannot redirect to VS Code here, as VS Code receives links as vscode:// URIs. Enter the code manually instead.'
+    )
+    throw new RedirectRejectedError(`Google does not accept the redirect URI ${listener.redirectUri}`)
+  }
+  const authUrl = oAuth2Client.generateAuthUrl({
+    access_type: 'offline',
+    scope: request.scopes,
+    prompt: 'select_account consent',  // Let the user pick the Google account and show all permissions
+    include_granted_scopes: request.includeGrantedScopes,
+    login_hint: request.loginHint,
+    redirect_uri: listener.redirectUri,
+    state,
+    code_challenge_method: CodeChallengeMethod.S256,
+    code_challenge: codeChallenge,
+  })
   vscode.env.openExternal(vscode.Uri.parse(authUrl))
+
   try {
-    const code = await getOAuthCode()
-    const { tokens } = await oAuth2Client.getToken(code)
-    storeToken(tokens)
-  } catch (error) {
-    vscode.window.showErrorMessage('Error in authorization: ' + ((error as any).message || 'Unknown error'))
-    throw new Error()
+    const code = flow === 'uriHandler' ? await offerManualEntry(listener.code) : await listener.code
+    return { code, codeVerifier, redirectUri: listener.redirectUri }
+  } finally {
+    listener.close()
   }
 }
+
+/**
+ * Google shows a rejected redirect in the browser only, so the extension keeps waiting for it.
+ * Let the user switch to pasting the code in the meantime.
+ */
+function offerManualEntry(code: Promise<string>): Promise<string> {
+  const switchToManual = vscode.window
+    .showInformationMessage(
+      'Waiting for Google to redirect back to VS Code. If Google shows a "redirect_uri_mismatch" error, enter the code manually instead.',
+      ENTER_CODE_MANUALLY
+    )
+    .then(action => {
+      if (action === ENTER_CODE_MANUALLY) throw new RedirectRejectedError()
+      // Dismissed: keep waiting for the redirect
+      return code
+    })
+  return Promise.race([code, switchToManual])
+}
+
+function isRedirectError(error: unknown): boolean {
+  return error instanceof RedirectRejectedError || /redirect_uri/.test(getErrorMessage(error))
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error || '')
+}
+
+function listenForOAuthCode(flow: AuthorizationFlow, options: OAuthCodeListenerOptions): Promise<OAuthCodeListener> {
+  if (flow === 'uriHandler') return authorizationUriHandler.listen(options)
+  if (flow === 'manual') return Promise.resolve(promptForOAuthCode(options))
+  return startOAuthCodeListener(options)
+}
+
+/**
+ * Ask the user to paste the address the browser was redirected to, or just the code in it
+ */
+function promptForOAuthCode(options: OAuthCodeListenerOptions): OAuthCodeListener {
+  const tokenSource = new vscode.CancellationTokenSource()
+  const code = vscode.window
+    .showInputBox(
+      {
+        prompt:
+          'After approving access, the browser opens a page that cannot be reached. ' +
+          'Paste its address (or the code in it) here.',
+        placeHolder: `${MANUAL_REDIRECT_URI}/?state=...&code=...`,
+        ignoreFocusOut: true,
+      },
+      tokenSource.token
+    )
+    .then(input => {
+      const value = (input || '').trim()
+      if (!value) throw new Error('Authorization was cancelled')
+      if (!value.includes('code=')) return value
+      return readAuthorizationCode(new URL(value, MANUAL_REDIRECT_URI).searchParams, options.state)
+    })
+
+  return {
+    redirectUri: MANUAL_REDIRECT_URI,
+    code: Promise.resolve(code),
+    close: () => tokenSource.dispose(),
+  }
+}
+
+function getAuthorizationFlow(): AuthorizationFlow {
+  const flow = vscode.workspace.getConfiguration('googleTasks').get<string>('authorizationFlow', 'auto')
+  if (flow === 'loopback' || flow === 'uriHandler' || flow === 'manual') return flow
+  // A loopback listener is unreachable from the browser when VS Code runs remotely or on the web, and
+  // the bundled Desktop OAuth client only allows loopback redirects, so the code is pasted instead
+  return vscode.env.remoteName || vscode.env.uiKind === vscode.UIKind.Web ? 'manual' : 'loopback'
+}
+
+function getAuthorizationTimeout(): number {
+  const seconds = vscode.workspace.getConfiguration('googleTasks').get<number>('authorizationTimeout', 300)
+  return seconds * 1000
+}
+
+/**
+ * Profile for the authorized Google account; re-authorizing an account that is
+ * already known updates its existing profile
+ */
+async function getAccountProfile(oAuth2Client: OAuth2Client): Promise<AccountProfile> {
+  let email: string | undefined
+  try {
+    const { data } = await google.oauth2({ version: 'v2', auth: oAuth2Client }).userinfo.get()
+    email = data.email || undefined
+  } catch (err) {
+    console.log('[Accounts] Could not read account email:', err)
+  }
+
+  const existingAccount = email ? findAccountByEmail(email) : undefined
+  if (existingAccount) return existingAccount
+
+  const name = await vscode.window.showInputBox({
+    prompt: 'Provide a name for this Google account (e.g. Work or Personal)',
+    placeHolder: 'Account name',
+    value: email,
+    ignoreFocusOut: true,
+  })
+  return { id: createAccountId(), name: name || email || 'Google Account', email }
+}
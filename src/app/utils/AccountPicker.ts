@@ -0,0 +1,49 @@
+/**
+ * Quick pick for switching between the authorized Google accounts
+ */
+
+import { window, QuickPickItem } from 'vscode'
+import { AccountProfile, getAccounts, getActiveAccount, isShowingAllAccounts } from '../Accounts'
+
+export type AccountPickerResult =
+    | { type: 'account'; account: AccountProfile }
+    | { type: 'addAccount' }
+    | { type: 'toggleShowAll' }
+
+interface AccountQuickPickItem extends QuickPickItem {
+    result: AccountPickerResult
+}
+
+/**
+ * Show the account switcher
+ * Returns the picked account or action, or undefined if cancelled
+ */
+export async function showAccountPicker(): Promise<AccountPickerResult | undefined> {
+    const activeAccount = getActiveAccount()
+
+    const accountItems: AccountQuickPickItem[] = getAccounts().map(account => ({
+        label: `${activeAccount && activeAccount.id === account.id ? '$(check)' : '$(account)'} ${account.name}`,
+        description: account.email && account.email !== account.name ? account.email : undefined,
+        result: { type: 'account', account },
+    }))
+
+    const actionItems: AccountQuickPickItem[] = [
+        {
+            label: '$(add) Add Google Account...',
+            result: { type: 'addAccount' },
+        },
+        {
+            label: isShowingAllAccounts()
+                ? '$(list-flat) Show Only the Active Account'
+                : '$(list-tree) Show All Accounts Side by Side',
+            result: { type: 'toggleShowAll' },
+        },
+    ]
+
+    const picked = await window.showQuickPick([...accountItems, ...actionItems], {
+        placeHolder: 'Select the Google account to use',
+        matchOnDescription: true,
+    })
+
+    return picked ? picked.result : undefined
+}
@@ -0,0 +1,54 @@
+/**
+ * Consistent notifications for failed Google API requests
+ */
+
+import { commands, window } from 'vscode'
+import { AuthError, classifyGoogleApiError, NetworkError, NotFoundError, QuotaError } from '../GoogleApi'
+import { AccountProfile } from '../Accounts'
+import { handleRevokedToken } from '../TokenRevocation'
+
+const TRY_AGAIN = 'Try Again'
+const AUTHORIZE = 'Authorize Google'
+const REFRESH = 'Refresh'
+
+export interface ApiErrorNotificationOptions {
+    // Offered as "Try Again" when repeating the request may help
+    retry?: () => unknown
+    // Account the request was made for, the active one by default
+    account?: AccountProfile
+}
+
+/**
+ * Tell the user that `action` failed, e.g. "Could not update the task", and how to go on
+ */
+export async function showGoogleApiError(action: string, err: unknown, options: ApiErrorNotificationOptions = {}) {
+    const error = classifyGoogleApiError(err)
+    console.error(`[GoogleApi] ${action}:`, error.cause || error)
+
+    if (error instanceof AuthError && error.revoked) {
+        await handleRevokedToken(options.account)
+        return
+    }
+
+    let message: string
+    const actions: string[] = []
+    if (error instanceof AuthError) {
+        message = `${action}: Google denied access (${error.message}). Authorizing again may help.`
+        actions.push(AUTHORIZE)
+    } else if (error instanceof QuotaError) {
+        message = `${action}: Google is receiving too many requests. Please wait a minute and try again.`
+    } else if (error instanceof NotFoundError) {
+        message = `${action}: it no longer exists in Google. Refresh to see the latest tasks.`
+        actions.push(REFRESH)
+    } else if (error instanceof NetworkError) {
+        message = `${action}: Google could not be reached. Check your internet connection.`
+    } else {
+        message = `${action}: ${error.message}`
+    }
+    if (options.retry && !(error instanceof NotFoundError)) actions.push(TRY_AGAIN)
+
+    const choice = await window.showErrorMessage(message, ...actions)
+    if (choice === TRY_AGAIN && options.retry) options.retry()
+    else if (choice === AUTHORIZE) commands.executeCommand('googleTasks.initUserGAuth')
+    else if (choice === REFRESH) commands.executeCommand('googleTasks.refresh')
+}
@@ -0,0 +1,25 @@
+/**
+ * One combined notification for an action applied to several tasks
+ */
+
+import { MutationOutcome } from '../TreeDataProviders/GTask/GTask.TreeDataProvider'
+import { showGoogleApiError } from './ApiErrorNotification'
+import { showUndoableMessage } from './UndoNotification'
+
+/**
+ * Summarize the outcomes, e.g. "4 tasks completed, 1 queued until Google can be reached, 2 failed"
+ * `verb` is what happened to the saved tasks, e.g. "completed"
+ */
+export async function showBulkResult(verb: string, outcomes: MutationOutcome[], retry?: () => unknown) {
+    const saved = outcomes.filter(outcome => outcome.status === 'saved').length
+    const queued = outcomes.filter(outcome => outcome.status === 'queued').length
+    const failed = outcomes.filter(outcome => outcome.status === 'failed')
+
+    const parts = [`${saved} ${saved === 1 ? 'task' : 'tasks'} ${verb}`]
+    if (queued) parts.push(`${queued} queued until Google can be reached`)
+    if (failed.length) parts.push(`${failed.length} failed`)
+    const summary = parts.join(', ')
+
+    if (failed.length) await showGoogleApiError(summary, failed[0].error, { retry })
+    else showUndoableMessage(`${summary}.`)
+}
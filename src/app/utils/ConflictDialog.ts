@@ -0,0 +1,28 @@
+/**
+ * Dialog for changes made offline that conflict with changes made in Google Tasks
+ */
+
+import { window } from 'vscode'
+import { ConflictResolution, OutboxEntry } from '../Outbox'
+
+const KEEP_MINE = 'Keep Mine'
+const KEEP_THEIRS = 'Keep Theirs'
+
+/**
+ * Ask whether to overwrite the changes made in Google Tasks with the offline change
+ * Returns undefined when the user closes the dialog, to ask again on the next sync
+ */
+export async function showConflictDialog(entry: OutboxEntry): Promise<ConflictResolution | undefined> {
+    const change = entry.mutation.kind.startsWith('delete') ? 'deleted' : 'changed'
+    const choice = await window.showWarningMessage(
+        `"${entry.label}" was changed in Google Tasks while you were offline. ` +
+        `Keep Mine applies the version you ${change} offline, Keep Theirs discards your offline change.`,
+        { modal: true },
+        KEEP_MINE,
+        KEEP_THEIRS
+    )
+
+    if (choice === KEEP_MINE) return 'mine'
+    if (choice === KEEP_THEIRS) return 'theirs'
+    return undefined
+}
@@ -263,3 +263,169 @@ export function parseCustomTime(timeString: string): { hours: number; minutes: n
 
     return null
 }
+
+export interface ExtractedDueDate {
+    text: string // The input without the words of the date and time
+    matched: string[] // The words of the date and time, as in the input
+    date?: Date // Local midnight of the due date
+    time?: { hours: number; minutes: number }
+}
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const WEEKDAY_NAMES = '(sunday|monday|tuesday|wednesday|thursday|friday|saturday)'
+const WEEKDAY_ABBREVIATIONS = '(sun|mon|tues?|wed|thu(?:rs)?|fri|sat)'
+const MONTH_NAMES = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)'
+// Words introducing a date or a time, removed along with it
+const DATE_PREFIX = '(?:(?:on|by|due) )?'
+// Required before dates that are also ordinary words or numbers, like "sat" or "3/4"
+const REQUIRED_DATE_PREFIX = '(?:on|by|due) '
+const TIME_PREFIX = '(?:at )?'
+
+/**
+ * Date patterns of natural-language input, each resolving its match to a date relative to `today`
+ */
+const DATE_PATTERNS: Array<{ pattern: RegExp; resolve: (match: RegExpExecArray, today: Date) => Date | undefined }> = [
+    {
+        pattern: new RegExp(`\\b${DATE_PREFIX}(today|tonight|tomorrow|tmrw?)\\b`, 'i'),
+        resolve: (match, today) => addDays(today, /^to(day|night)$/i.test(match[1]) ? 0 : 1),
+    },
+    {
+        pattern: new RegExp(`\\b${DATE_PREFIX}in (\\d+) (day|week|month)s?\\b`, 'i'),
+        resolve: (match, today) => {
+            const count = parseInt(match[1], 10)
+            const unit = match[2].toLowerCase()
+            return unit === 'month' ? addMonths(today, count) : addDays(today, unit === 'week' ? count * 7 : count)
+        },
+    },
+    {
+        pattern: new RegExp(`\\b${DATE_PREFIX}next (week|month)\\b`, 'i'),
+        resolve: (match, today) => (match[1].toLowerCase() === 'week' ? addDays(today, 7) : addMonths(today, 1)),
+    },
+    {
+        pattern: new RegExp(`\\b${DATE_PREFIX}(?:next )?${WEEKDAY_NAMES}\\b`, 'i'),
+        resolve: (match, today) => toComingWeekday(today, match[1]),
+    },
+    {
+        pattern: new RegExp(`\\b(?:${REQUIRED_DATE_PREFIX}(?:next )?|next )${WEEKDAY_ABBREVIATIONS}\\b`, 'i'),
+        resolve: (match, today) => toComingWeekday(today, match[1]),
+    },
+    {
+        pattern: new RegExp(`\\b${DATE_PREFIX}(\\d{4})-(\\d{2})-(\\d{2})\\b`, 'i'),
+        resolve: match => toDate(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)),
+    },
+    {
+        pattern: new RegExp(`\\b${DATE_PREFIX}(\\d{1,2})/(\\d{1,2})/(\\d{4})\\b`, 'i'),
+        resolve: (match, today) => toUpcomingDate(today, parseInt(match[1], 10) - 1, parseInt(match[2], 10), match[3]),
+    },
+    {
+        pattern: new RegExp(`\\b${REQUIRED_DATE_PREFIX}(\\d{1,2})/(\\d{1,2})\\b`, 'i'),
+        resolve: (match, today) => toUpcomingDate(today, parseInt(match[1], 10) - 1, parseInt(match[2], 10)),
+    },
+    {
+        pattern: new RegExp(`\\b${DATE_PREFIX}${MONTH_NAMES}\\.? (\\d{1,2})(?:st|nd|rd|th)?(?:,? (\\d{4}))?\\b`, 'i'),
+        resolve: (match, today) =>
+            toUpcomingDate(today, MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()), parseInt(match[2], 10), match[3]),
+    },
+    {
+        pattern: new RegExp(`\\b${DATE_PREFIX}(\\d{1,2})(?:st|nd|rd|th)? ${MONTH_NAMES}\\.?(?: (\\d{4}))?\\b`, 'i'),
+        resolve: (match, today) =>
+            toUpcomingDate(today, MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()), parseInt(match[1], 10), match[3]),
+    },
+]
+
+const TIME_PATTERNS: Array<{ pattern: RegExp; resolve: (match: RegExpExecArray) => { hours: number; minutes: number } | null }> = [
+    {
+        pattern: new RegExp(`\\b${TIME_PREFIX}(\\d{1,2}(?::\\d{2})? ?[ap]m)\\b`, 'i'),
+        resolve: match => parseCustomTime(match[1]),
+    },
+    {
+        pattern: new RegExp(`\\b${TIME_PREFIX}(\\d{1,2}:\\d{2})\\b`, 'i'),
+        resolve: match => parseCustomTime(match[1]),
+    },
+    {
+        pattern: new RegExp(`\\b${TIME_PREFIX}(noon|midnight)\\b`, 'i'),
+        resolve: match => ({ hours: match[1].toLowerCase() === 'noon' ? 12 : 0, minutes: 0 }),
+    },
+]
+
+/**
+ * Find a due date and time in natural-language input like "Review PR tomorrow 3pm",
+ * "Call Bob on friday" or "Renew passport by Mar 5". A time without a date is due today.
+ */
+export function extractDueDate(input: string, now: Date = new Date()): ExtractedDueDate {
+    const today = toDate(now.getFullYear(), now.getMonth(), now.getDate()) as Date
+    let text = input
+    let date: Date | undefined
+    let time: { hours: number; minutes: number } | undefined
+    const matched: string[] = []
+
+    for (const { pattern, resolve } of DATE_PATTERNS) {
+        const match = pattern.exec(text)
+        const resolved = match && resolve(match, today)
+        if (match && resolved) {
+            date = resolved
+            matched.push(match[0])
+            text = removeMatch(text, match)
+            break
+        }
+    }
+    for (const { pattern, resolve } of TIME_PATTERNS) {
+        const match = pattern.exec(text)
+        const resolved = match && resolve(match)
+        if (match && resolved) {
+            time = resolved
+            matched.push(match[0])
+            text = removeMatch(text, match)
+            break
+        }
+    }
+
+    return { text, matched, date: date || (time && today), time }
+}
+
+/**
+ * The `due` value of a task due on the local date; Google Tasks only keeps the date
+ */
+export function toDueDate(date: Date): string {
+    const pad = (value: number) => value.toString().padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T00:00:00.000Z`
+}
+
+function removeMatch(text: string, match: RegExpExecArray): string {
+    return `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * The coming weekday, a week from today when it is today
+ */
+function toComingWeekday(today: Date, name: string): Date {
+    const weekday = WEEKDAYS.indexOf(name.slice(0, 3).toLowerCase())
+    return addDays(today, (weekday - today.getDay() + 7) % 7 || 7)
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+function addMonths(date: Date, months: number): Date {
+    return new Date(date.getFullYear(), date.getMonth() + months, date.getDate())
+}
+
+/**
+ * Local midnight of the date, undefined when there is no such day
+ */
+function toDate(year: number, month: number, day: number): Date | undefined {
+    if (month < 0 || month > 11) return undefined
+    const date = new Date(year, month, day)
+    return date.getDate() === day ? date : undefined
+}
+
+/**
+ * The date in the given year, or its next occurrence from today without a year
+ */
+function toUpcomingDate(today: Date, month: number, day: number, year?: string): Date | undefined {
+    if (year) return toDate(parseInt(year, 10), month, day)
+    const date = toDate(today.getFullYear(), month, day)
+    return date && date < today ? toDate(today.getFullYear() + 1, month, day) : date
+}
@@ -0,0 +1,38 @@
+/**
+ * Helpers for listing Google API collections spread over several pages
+ */
+
+// Largest page sizes accepted by the APIs
+export const MAX_TASKS_PAGE_SIZE = 100
+export const MAX_TASK_LISTS_PAGE_SIZE = 100
+export const EVENTS_PAGE_SIZE = 250
+
+export interface Page<T> {
+    items?: T[] | null
+    nextPageToken?: string | null
+}
+
+/**
+ * Fetch every page of a list call and return the items of all pages
+ * `fetchPage` receives the token of the page to fetch, undefined for the first one,
+ * unless fetching starts at `firstPageToken`
+ */
+export async function fetchAllPages<T>(
+    fetchPage: (pageToken?: string) => Promise<{ data: Page<T> }>,
+    firstPageToken?: string
+): Promise<T[]> {
+    const items: T[] = []
+    const seenTokens = new Set<string>()
+    let pageToken = firstPageToken
+
+    do {
+        const { data } = await fetchPage(pageToken)
+        items.push(...(data.items || []))
+        pageToken = data.nextPageToken || undefined
+        // Guard against an API handing out the same page again
+        if (pageToken && seenTokens.has(pageToken)) break
+        if (pageToken) seenTokens.add(pageToken)
+    } while (pageToken)
+
+    return items
+}
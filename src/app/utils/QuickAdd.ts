@@ -0,0 +1,104 @@
+/**
+ * Quick input adding a task from one line of natural language,
+ * e.g. "Review PR #42 tomorrow 3pm #Work"
+ */
+
+import { window, QuickPickItem } from 'vscode'
+import { tasks_v1 } from 'googleapis'
+
+import { extractDueDate, formatDueDate, formatTime, toDueDate } from './DateTimeUtils'
+
+export interface QuickAddTask {
+    title: string
+    due?: string // RFC 3339 format, date only
+    time?: { hours: number; minutes: number } // Understood, but not kept by Google Tasks
+    taskList: tasks_v1.Schema$TaskList
+    matched: string[] // Words read as the due date, time or list, left out of the title
+}
+
+/**
+ * Read the title, due date and list of a task; a `#` followed by the title of a list picks
+ * that list, `defaultTaskList` otherwise
+ */
+export function parseQuickAdd(
+    input: string,
+    taskLists: tasks_v1.Schema$TaskList[],
+    defaultTaskList: tasks_v1.Schema$TaskList
+): QuickAddTask {
+    let text = input
+    let taskList = defaultTaskList
+    const matched: string[] = []
+    // Longer titles first, so "#Work Projects" is not taken for "#Work"
+    const byLength = [...taskLists].sort((a, b) => (b.title || '').length - (a.title || '').length)
+    for (const candidate of byLength) {
+        const title = candidate.title || ''
+        if (!title) continue
+        const names = [title, title.replace(/\s+/g, '')].map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        const match = new RegExp(`(^|\\s)#(${names.join('|')})(?=\\s|$)`, 'i').exec(text)
+        if (match) {
+            taskList = candidate
+            matched.push(`#${match[2]}`)
+            text = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`
+            break
+        }
+    }
+
+    const { text: title, matched: dateWords, date, time } = extractDueDate(text)
+    return { title, due: date && toDueDate(date), time, taskList, matched: [...dateWords, ...matched] }
+}
+
+/**
+ * Show the quick input with a live preview of the task, starting from `value` if given
+ * Returns the task to add or undefined if cancelled
+ */
+export function showQuickAdd(
+    taskLists: tasks_v1.Schema$TaskList[],
+    defaultTaskList: tasks_v1.Schema$TaskList,
+    value?: string
+): Promise<QuickAddTask | undefined> {
+    return new Promise(resolve => {
+        const quickPick = window.createQuickPick<QuickPickItem>()
+        quickPick.title = 'Quick Add Task'
+        quickPick.placeholder = `e.g. "Review PR #42 tomorrow 3pm #${(defaultTaskList.title || 'List').replace(/\s+/g, '')}"`
+        quickPick.ignoreFocusOut = true
+        let task: QuickAddTask | undefined
+
+        const updatePreview = (value: string) => {
+            task = value.trim() ? parseQuickAdd(value, taskLists, defaultTaskList) : undefined
+            if (!task) {
+                quickPick.items = []
+                return
+            }
+
+            const { title, due, time, matched } = task
+            const details = [`$(list-unordered) ${task.taskList.title || 'No Title'}`]
+            if (due) details.unshift(formatDueDate(due) + (time ? ` ${formatTime(time.hours, time.minutes)}` : ''))
+            // Show what was taken out of the title, e.g. when a comment happens to contain "tomorrow"
+            const notes = matched.length ? [`Left out of the title: ${matched.map(words => `"${words}"`).join(', ')}`] : []
+            if (time) notes.push('Google Tasks keeps the due date only, not the time')
+            quickPick.items = [{
+                label: title ? `$(add) ${title}` : '$(warning) Type a title for the task',
+                description: details.join('  '),
+                detail: notes.join(' · ') || undefined,
+                // The preview is not filtered by the typed text
+                alwaysShow: true,
+            }]
+        }
+
+        if (value) {
+            quickPick.value = value
+            updatePreview(value)
+        }
+        quickPick.onDidChangeValue(updatePreview)
+        quickPick.onDidAccept(() => {
+            if (!task || !task.title) return
+            resolve(task)
+            quickPick.hide()
+        })
+        quickPick.onDidHide(() => {
+            resolve(undefined)
+            quickPick.dispose()
+        })
+        quickPick.show()
+    })
+}
@@ -222,9 +222,9 @@ function formatDateDescription(date: Date): string {
 /**
  * Simple confirmation dialog for clearing schedule
  */
-export async function confirmClearSchedule(): Promise<boolean> {
+export async function confirmClearSchedule(taskCount: number = 1): Promise<boolean> {
     const result = await window.showWarningMessage(
-        'Clear this task schedule?',
+        taskCount > 1 ? `Clear the schedule of ${taskCount} tasks?` : 'Clear this task schedule?',
         { modal: true },
         'Clear',
         'Cancel'
@@ -0,0 +1,34 @@
+/**
+ * Quick pick for choosing the task list tasks are moved to
+ */
+
+import { window, QuickPickItem } from 'vscode'
+import { tasks_v1 } from 'googleapis'
+
+interface TaskListQuickPickItem extends QuickPickItem {
+    taskList: tasks_v1.Schema$TaskList
+}
+
+/**
+ * Show the task lists, except the one the tasks are already in
+ * Returns the picked task list or undefined if cancelled
+ */
+export async function showTaskListPicker(
+    taskLists: tasks_v1.Schema$TaskList[],
+    currentTaskListId?: string
+): Promise<tasks_v1.Schema$TaskList | undefined> {
+    const items: TaskListQuickPickItem[] = taskLists
+        .filter(taskList => taskList.id && taskList.id !== currentTaskListId)
+        .map(taskList => ({
+            label: `$(list-unordered) ${taskList.title || 'No Title'}`,
+            taskList,
+        }))
+
+    if (!items.length) {
+        window.showInformationMessage('There is no other task list to move the tasks to.')
+        return undefined
+    }
+
+    const picked = await window.showQuickPick(items, { placeHolder: 'Select the task list to move the tasks to' })
+    return picked ? picked.taskList : undefined
+}
@@ -0,0 +1,46 @@
+/**
+ * Utility functions for reading TODO and FIXME comments of source code,
+ * e.g. `// TODO: Handle timeouts` or `# FIXME(alice): Escape quotes`
+ */
+
+export interface TodoComment {
+    keyword: 'TODO' | 'FIXME'
+    text: string // What is left to do, without the comment markers
+    taskId?: string // Task created from the comment, e.g. `TODO(gtasks:abc)`
+    meta?: string // Text between the parentheses after the keyword, e.g. an author
+    start: number // Column of the keyword
+    end: number // Column after the keyword and its parentheses
+}
+
+// A comment marker, the keyword, optional parentheses and the text up to the end of the comment. `#` and `--`
+// only start a comment at the start of the line or after a space, not inside a string like "# TODO".
+const TODO_PATTERN = /(\/\/+|\/\*+|^\s*\*+|<!--|;+|(?:^|\s)(?:#+|--))\s*\b(TODO|FIXME)\b(?:\(([^)]*)\))?:?\s*(.*?)\s*(?:\*\/|-->|$)/
+const TASK_ID_PATTERN = /(?:^|,\s*)gtasks:([\w-]+)/
+
+/**
+ * The TODO or FIXME comment on a line of code, undefined when there is none
+ */
+export function parseTodoComment(line: string): TodoComment | undefined {
+    const match = TODO_PATTERN.exec(line)
+    if (!match) return undefined
+
+    const [, marker, keyword, meta, text] = match
+    const start = line.indexOf(keyword, match.index + marker.length)
+    const taskIdMatch = meta !== undefined ? TASK_ID_PATTERN.exec(meta) : null
+    return {
+        keyword: keyword as TodoComment['keyword'],
+        text,
+        taskId: taskIdMatch ? taskIdMatch[1] : undefined,
+        meta,
+        start,
+        end: start + keyword.length + (meta !== undefined ? meta.length + 2 : 0),
+    }
+}
+
+/**
+ * The line with the task id added to its comment, e.g. `// TODO(gtasks:abc): Handle timeouts`
+ */
+export function addTaskIdToComment(line: string, comment: TodoComment, taskId: string): string {
+    const meta = comment.meta ? `${comment.meta}, gtasks:${taskId}` : `gtasks:${taskId}`
+    return `${line.slice(0, comment.start)}${comment.keyword}(${meta})${line.slice(comment.end)}`
+}
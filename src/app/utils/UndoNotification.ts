@@ -0,0 +1,17 @@
+/**
+ * Success notifications that offer to undo the change they report
+ */
+
+import { commands, window } from 'vscode'
+import undoManager from '../UndoManager'
+
+const UNDO = 'Undo'
+
+/**
+ * Show `message` for the change just made, with an "Undo" button reverting it
+ */
+export async function showUndoableMessage(message: string) {
+    const entry = undoManager.peek('undo')
+    const choice = await window.showInformationMessage(message, ...(entry ? [UNDO] : []))
+    if (choice === UNDO && entry) commands.executeCommand('googleTasks.undo', entry.id)
+}
@@ -7,44 +7,84 @@ import telemetry from './telemetry'
 import { registerCommands } from './app/commands/commands'
 import { ScheduleWebViewProvider } from './app/providers/ScheduleWebViewProvider'
 import { CalendarWebViewProvider } from './app/providers/CalendarWebViewProvider'
-import getOAuthClient from './app/OAuthClient'
-import { getStoredToken } from './app/Token'
+import { TaskEditorWebViewProvider } from './app/providers/TaskEditorWebViewProvider'
+import { TodoCodeActionProvider } from './app/providers/TodoCodeActionProvider'
+import getOAuthClient, { registerClientCredentials } from './app/OAuthClient'
+import { getStoredToken, registerTokenStorage } from './app/Token'
+import { getActiveAccount, registerAccounts } from './app/Accounts'
+import { hasCalendarScope } from './app/Scopes'
 import gTaskTreeProvider from './app/TreeDataProviders/GTask/GTask.TreeDataProvider'
+import authorizationUriHandler from './app/uriHandler'
+import taskCache from './app/TaskCache'
+import outbox from './app/Outbox'
+import autoSync from './app/AutoSync'
+import taskFileSystem from './app/TaskFileSystem'
 
 let scheduleWebViewProvider: ScheduleWebViewProvider
 let calendarWebViewProvider: CalendarWebViewProvider
+let taskEditorWebViewProvider: TaskEditorWebViewProvider
 
 /**
  * Initialize or reinitialize calendar OAuth credentials
  */
-export function initializeCalendarOAuth() {
+export async function initializeCalendarOAuth() {
   try {
-    const oAuthClient = getOAuthClient()
-    const token = getStoredToken()
+    const account = getActiveAccount()
+    const oAuthClient = getOAuthClient(account && account.id)
+    const token = await getStoredToken(account && account.id)
+    calendarWebViewProvider.setTaskProvider(gTaskTreeProvider)
+
+    // Tasks-only authorizations leave the calendar disabled until access is granted
+    const calendarEnabled = hasCalendarScope(token)
+    vscode.commands.executeCommand('setContext', 'GoogleCalendarEnabled', calendarEnabled)
+    if (!calendarEnabled) {
+      calendarWebViewProvider.clearOAuthClient()
+      console.log('[Calendar] Calendar access not granted')
+      return
+    }
+
     oAuthClient.setCredentials(token)
     calendarWebViewProvider.setOAuthClient(oAuthClient)
-    calendarWebViewProvider.setTaskProvider(gTaskTreeProvider)
     console.log('[Calendar] OAuth initialized successfully')
   } catch (err) {
+    vscode.commands.executeCommand('setContext', 'GoogleCalendarEnabled', false)
+    calendarWebViewProvider.clearOAuthClient()
     console.log('[Calendar] OAuth not ready:', err)
   }
 }
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
   const startTime = process.hrtime()
   telemetry.sendTelemetryEvent('activate')
 
   registerRootPath(context)
+  registerTokenStorage(context)
+  await registerClientCredentials(context)
+  await registerAccounts(context)
+  taskCache.register(context)
+  outbox.register(context)
+  taskFileSystem.register(context)
 
   // Initialize WebView providers
   scheduleWebViewProvider = new ScheduleWebViewProvider(context)
   calendarWebViewProvider = new CalendarWebViewProvider(context)
+  taskEditorWebViewProvider = new TaskEditorWebViewProvider(context)
 
   // Initialize Calendar provider with OAuth
-  initializeCalendarOAuth()
+  await initializeCalendarOAuth()
+
+  // Receive OAuth redirects through vscode:// URIs
+  context.subscriptions.push(vscode.window.registerUriHandler(authorizationUriHandler))
 
-  // Register feature commands (pass both providers)
-  registerCommands(scheduleWebViewProvider, calendarWebViewProvider, context)
+  // Register feature commands (pass the providers)
+  registerCommands(scheduleWebViewProvider, calendarWebViewProvider, context, taskEditorWebViewProvider)
+
+  // Offer to create tasks from TODO comments
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, new TodoCodeActionProvider(), {
+      providedCodeActionKinds: TodoCodeActionProvider.providedCodeActionKinds,
+    })
+  )
 
   // Register calendar command
   const calendarCommand = vscode.commands.registerCommand('googleTasks.openCalendar', () => {
@@ -52,7 +92,14 @@ export function activate(context: vscode.ExtensionContext) {
   })
   context.subscriptions.push(calendarCommand)
 
-  loadGoogleTasks()
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('googleTasks.showAllAccounts')) loadGoogleTasks()
+    })
+  )
+
+  await loadGoogleTasks()
+  autoSync.register(context)
 
   logExtensionActivated(context, startTime)
 }
@@ -74,6 +121,8 @@ function logExtensionActivated(context: vscode.ExtensionContext, startTime: [num
   console.log(`GoogleTasks (v${googleTasksVersion}) activated in ${duration}ms`)
 }
 
-export function deactivate() {
+export async function deactivate() {
+  // Completed tasks hidden by a clearing that could still be undone would show up again after a reload
+  await gTaskTreeProvider.flushPendingClears()
   telemetry.dispose()
 }
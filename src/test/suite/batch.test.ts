@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+
+import { buildBatchBody, parseBatchResponse } from '../../app/Batch';
+import { NotFoundError } from '../../app/GoogleApi';
+
+suite('Batch requests', () => {
+	test('puts each call in its own part', () => {
+		const body = buildBatchBody(
+			[
+				{ method: 'GET', path: '/tasks/v1/lists/a/tasks', query: { maxResults: 100, pageToken: undefined } },
+				{ method: 'PATCH', path: '/tasks/v1/lists/a/tasks/1', body: { status: 'completed' } },
+			],
+			'xyz'
+		);
+		const parts = body.split('--xyz');
+
+		assert.strictEqual(parts.length, 4);
+		assert.ok(parts[1].includes('Content-ID: <item0>'));
+		assert.ok(parts[1].includes('GET /tasks/v1/lists/a/tasks?maxResults=100 HTTP/1.1'));
+		assert.ok(parts[2].includes('PATCH /tasks/v1/lists/a/tasks/1 HTTP/1.1'));
+		assert.ok(parts[2].includes('{"status":"completed"}'));
+		assert.strictEqual(parts[3], '--\r\n');
+	});
+
+	test('reads the result of each call', () => {
+		const body = [
+			'--batch_abc',
+			'Content-Type: application/http',
+			'Content-ID: <response-item1>',
+			'',
+			'HTTP/1.1 404 Not Found',
+			'Content-Type: application/json; charset=UTF-8',
+			'',
+			'{"error":{"code":404,"message":"Task not found."}}',
+			'--batch_abc',
+			'Content-Type: application/http',
+			'Content-ID: <response-item0>',
+			'',
+			'HTTP/1.1 200 OK',
+			'Content-Type: application/json; charset=UTF-8',
+			'',
+			'{"id":"1","status":"completed"}',
+			'--batch_abc',
+			'Content-Type: application/http',
+			'Content-ID: <response-item2>',
+			'',
+			'HTTP/1.1 204 No Content',
+			'',
+			'',
+			'--batch_abc--',
+		].join('\r\n');
+
+		const results = parseBatchResponse(body, 'multipart/mixed; boundary=batch_abc');
+
+		assert.deepStrictEqual(results.get(0), { ok: true, status: 200, data: { id: '1', status: 'completed' }, error: undefined });
+		assert.strictEqual(results.get(1)?.ok, false);
+		assert.ok(results.get(1)?.error instanceof NotFoundError);
+		assert.strictEqual(results.get(1)?.error?.message, 'Task not found.');
+		assert.strictEqual(results.get(2)?.ok, true);
+		assert.strictEqual(results.get(2)?.data, undefined);
+	});
+});
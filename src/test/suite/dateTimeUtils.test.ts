@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+
+import { extractDueDate, toDueDate } from '../../app/utils/DateTimeUtils';
+
+// Wednesday, March 12, 2025, 10:00 local time
+const now = new Date(2025, 2, 12, 10, 0);
+
+function due(input: string) {
+	const { text, date, time } = extractDueDate(input, now);
+	return { text, due: date && toDueDate(date), time };
+}
+
+suite('Date time utils', () => {
+	test('reads relative dates and times, leaving the rest of the text', () => {
+		assert.deepStrictEqual(due('Review PR #42 tomorrow 3pm #Work'), {
+			text: 'Review PR #42 #Work',
+			due: '2025-03-13T00:00:00.000Z',
+			time: { hours: 15, minutes: 0 },
+		});
+		assert.deepStrictEqual(due('Standup today at 9:30'), {
+			text: 'Standup',
+			due: '2025-03-12T00:00:00.000Z',
+			time: { hours: 9, minutes: 30 },
+		});
+		assert.strictEqual(due('Ship it in 3 days').due, '2025-03-15T00:00:00.000Z');
+		assert.strictEqual(due('Plan next week').due, '2025-03-19T00:00:00.000Z');
+		assert.deepStrictEqual(extractDueDate('Review PR by Friday at 3pm', now).matched, ['by Friday', 'at 3pm']);
+	});
+
+	test('reads weekdays as the coming one', () => {
+		assert.deepStrictEqual(due('Call Bob on friday'), { text: 'Call Bob', due: '2025-03-14T00:00:00.000Z', time: undefined });
+		assert.strictEqual(due('Retro on wed').due, '2025-03-19T00:00:00.000Z');
+		assert.strictEqual(due('Demo next fri').due, '2025-03-14T00:00:00.000Z');
+		assert.strictEqual(due('Buy a monitor').due, undefined);
+	});
+
+	test('reads abbreviated weekdays and numeric dates only after on, by, due or next', () => {
+		assert.deepStrictEqual(due('Fix the sat solver'), { text: 'Fix the sat solver', due: undefined, time: undefined });
+		assert.strictEqual(due('Update sun icon').due, undefined);
+		assert.deepStrictEqual(due('Read chapter 3/4'), { text: 'Read chapter 3/4', due: undefined, time: undefined });
+		assert.strictEqual(due('Dentist due 4/2').due, '2025-04-02T00:00:00.000Z');
+	});
+
+	test('reads calendar dates, in the next year once passed', () => {
+		assert.deepStrictEqual(due('Renew passport by Mar 5'), { text: 'Renew passport', due: '2026-03-05T00:00:00.000Z', time: undefined });
+		assert.strictEqual(due('Taxes 15 April').due, '2025-04-15T00:00:00.000Z');
+		assert.strictEqual(due('Launch 2025-06-01').due, '2025-06-01T00:00:00.000Z');
+		assert.strictEqual(due('Dentist on 4/2').due, '2025-04-02T00:00:00.000Z');
+		assert.strictEqual(due('Dentist 4/2/2026').due, '2026-04-02T00:00:00.000Z');
+		assert.strictEqual(due('Ratio on 13/40').due, undefined);
+	});
+
+	test('makes a time without a date due today', () => {
+		assert.deepStrictEqual(due('Lunch at noon'), { text: 'Lunch', due: '2025-03-12T00:00:00.000Z', time: { hours: 12, minutes: 0 } });
+		assert.deepStrictEqual(due('Write docs'), { text: 'Write docs', due: undefined, time: undefined });
+	});
+});
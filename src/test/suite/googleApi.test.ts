@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+
+import {
+	AuthError,
+	callGoogleApi,
+	classifyGoogleApiError,
+	NetworkError,
+	NotFoundError,
+	QuotaError,
+} from '../../app/GoogleApi';
+
+function apiError(status: number, headers: { [key: string]: string } = {}, data: any = {}) {
+	return Object.assign(new Error(`Request failed with status ${status}`), {
+		code: String(status),
+		response: { status, headers, data },
+	});
+}
+
+/**
+ * Fails with the given errors, then resolves with 'ok'
+ */
+function failingRequest(errors: any[]) {
+	let calls = 0;
+	const request = async () => {
+		const error = errors[calls++];
+		if (error) throw error;
+		return 'ok';
+	};
+	return { request, calls: () => calls };
+}
+
+suite('Google API requests', () => {
+	const sleeps: number[] = [];
+	const sleep = async (ms: number) => {
+		sleeps.push(ms);
+	};
+
+	teardown(() => {
+		sleeps.length = 0;
+	});
+
+	test('retries rate limited and server errors', async () => {
+		const { request, calls } = failingRequest([apiError(429), apiError(503)]);
+
+		assert.strictEqual(await callGoogleApi(request, { sleep }), 'ok');
+		assert.strictEqual(calls(), 3);
+		assert.strictEqual(sleeps.length, 2);
+		assert.ok(sleeps.every(ms => ms >= 0 && ms <= 1000));
+	});
+
+	test('waits as long as Retry-After asks', async () => {
+		const { request } = failingRequest([apiError(429, { 'retry-after': '2' })]);
+
+		await callGoogleApi(request, { sleep });
+		assert.deepStrictEqual(sleeps, [2000]);
+	});
+
+	test('gives up after the last retry with a quota error', async () => {
+		const { request, calls } = failingRequest([apiError(429), apiError(429), apiError(429)]);
+
+		await assert.rejects(callGoogleApi(request, { sleep, retries: 2 }), QuotaError);
+		assert.strictEqual(calls(), 3);
+	});
+
+	test('does not retry other errors', async () => {
+		const { request, calls } = failingRequest([apiError(404)]);
+
+		await assert.rejects(callGoogleApi(request, { sleep }), NotFoundError);
+		assert.strictEqual(calls(), 1);
+	});
+
+	test('classifies errors', () => {
+		const revoked = classifyGoogleApiError(apiError(400, {}, { error: 'invalid_grant' }));
+		const rateLimited = apiError(403, {}, { error: { errors: [{ reason: 'userRateLimitExceeded' }] } });
+		const offline = Object.assign(new Error('getaddrinfo ENOTFOUND tasks.googleapis.com'), { code: 'ENOTFOUND' });
+
+		assert.ok(revoked instanceof AuthError && revoked.revoked);
+		// A refresh token issued for another OAuth client
+		const otherClient = classifyGoogleApiError(apiError(401, {}, { error: 'unauthorized_client' }));
+		assert.ok(otherClient instanceof AuthError && otherClient.revoked);
+		assert.ok(classifyGoogleApiError(apiError(403)) instanceof AuthError);
+		assert.ok(classifyGoogleApiError(rateLimited) instanceof QuotaError);
+		assert.ok(classifyGoogleApiError(offline) instanceof NetworkError);
+	});
+});
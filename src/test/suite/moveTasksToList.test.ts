@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { tasks_v1 } from 'googleapis';
+
+import gTaskTreeProvider from '../../app/TreeDataProviders/GTask/GTask.TreeDataProvider';
+import outbox from '../../app/Outbox';
+import taskCache from '../../app/TaskCache';
+
+suite('Move tasks to another list', () => {
+	const accountId = 'move-test';
+
+	teardown(async () => {
+		await taskCache.clear(accountId);
+		await outbox.clear(accountId);
+	});
+
+	test('copies the subtasks added offline along with the task', async () => {
+		const inserted: tasks_v1.Params$Resource$Tasks$Insert[] = [];
+		let nextId = 1;
+		const service = {
+			tasks: {
+				insert: async (params: tasks_v1.Params$Resource$Tasks$Insert) => {
+					inserted.push(params);
+					return { data: { ...params.requestBody, id: `saved-${nextId++}` } };
+				},
+				delete: async () => ({ data: '' }),
+			},
+		} as unknown as tasks_v1.Tasks;
+		await taskCache.set(
+			{
+				syncedAt: '2024-01-01T00:00:00.000Z',
+				taskLists: [
+					{ taskList: { id: 'work', title: 'Work' }, tasks: { a: { id: 'a', title: 'A', status: 'needsAction' } } },
+					{ taskList: { id: 'home', title: 'Home' }, tasks: {} },
+				],
+			},
+			accountId
+		);
+		// Added while Google could not be reached
+		await outbox.enqueue(
+			[{ kind: 'insertTask', params: { tasklist: 'work', parent: 'a', requestBody: { title: 'Sub' } }, localId: 'local-sub' }],
+			await taskCache.get(accountId),
+			accountId
+		);
+
+		const previousService = gTaskTreeProvider.service;
+		gTaskTreeProvider.service = service;
+		try {
+			const [outcome] = await gTaskTreeProvider.moveTasksToList(
+				[{ tasklist: 'work', task: { id: 'a', title: 'A', status: 'needsAction' } }],
+				'home',
+				accountId
+			);
+			assert.strictEqual(outcome.status, 'saved');
+			assert.strictEqual(outcome.total, 2);
+		} finally {
+			gTaskTreeProvider.service = previousService;
+		}
+
+		const copies = inserted.filter(params => params.tasklist === 'home');
+		assert.deepStrictEqual(copies.map(params => params.requestBody && params.requestBody.title), ['A', 'Sub']);
+		assert.strictEqual(copies[1].parent, 'saved-2');
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { tasks_v1 } from 'googleapis';
+
+import outbox, { OutboxEntry } from '../../app/Outbox';
+import { CachedAccountTasks } from '../../app/TaskCache';
+
+suite('Outbox', () => {
+	test('sends changes made to one task while offline without a conflict', async () => {
+		// The task as stored on Google, a new version for each change
+		let task: tasks_v1.Schema$Task = { id: 'a', title: 'A', etag: '1', updated: '2024-01-01T00:00:00.000Z' };
+		let version = 1;
+		const service = {
+			tasks: {
+				get: async () => ({ data: task }),
+				patch: async ({ requestBody }: tasks_v1.Params$Resource$Tasks$Patch) => {
+					version++;
+					task = { ...task, ...requestBody, etag: `${version}`, updated: `2024-01-0${version}T00:00:00.000Z` };
+					return { data: task };
+				},
+			},
+		} as unknown as tasks_v1.Tasks;
+		const cached: CachedAccountTasks = {
+			syncedAt: '2024-01-01T00:00:00.000Z',
+			taskLists: [{ taskList: { id: 'work', title: 'Work' }, tasks: { a: { ...task } } }],
+		};
+		const accountId = 'outbox-test';
+
+		const entries = await outbox.enqueue(
+			[
+				{ kind: 'patchTask', params: { tasklist: 'work', task: 'a', requestBody: { title: 'B' } } },
+				{ kind: 'patchTask', params: { tasklist: 'work', task: 'a', requestBody: { notes: 'Notes' } } },
+			],
+			cached,
+			accountId
+		);
+		// Both changes waited for Google to be reachable again
+		entries.forEach(entry => (entry.deferred = true));
+
+		const conflicts: OutboxEntry[] = [];
+		const sent = await outbox.replay(service, async entry => {
+			conflicts.push(entry);
+			return 'theirs';
+		}, accountId);
+
+		assert.strictEqual(sent, 2);
+		assert.deepStrictEqual(conflicts, []);
+		assert.strictEqual(task.title, 'B');
+		assert.strictEqual(task.notes, 'Notes');
+		assert.deepStrictEqual(await outbox.get(accountId), []);
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { tasks_v1 } from 'googleapis';
+
+import { fetchAllPages, Page } from '../../app/utils/Pagination';
+import { syncAccountTasks } from '../../app/TaskSync';
+
+/**
+ * Serves `items` in pages of `pageSize`, recording the parameters of each call
+ */
+function fakeList<T>(items: T[], pageSize: number) {
+	const calls: Array<{ [key: string]: any }> = [];
+	const list = async (params: { [key: string]: any } = {}): Promise<{ data: Page<T> }> => {
+		calls.push(params);
+		const start = params.pageToken ? Number(params.pageToken) : 0;
+		const end = start + pageSize;
+		return {
+			data: {
+				items: items.slice(start, end),
+				nextPageToken: end < items.length ? String(end) : undefined,
+			},
+		};
+	};
+	return { list, calls };
+}
+
+function range(count: number, prefix: string) {
+	return Array.from({ length: count }, (_, index) => ({ id: `${prefix}${index}`, title: `${prefix} ${index}` }));
+}
+
+suite('Pagination', () => {
+	test('collects the items of every page', async () => {
+		const service = fakeList(range(7, 'item'), 3);
+		const items = await fetchAllPages(pageToken => service.list({ pageToken }));
+
+		assert.deepStrictEqual(items.map(item => item.id), range(7, 'item').map(item => item.id));
+		assert.deepStrictEqual(service.calls.map(call => call.pageToken), [undefined, '3', '6']);
+	});
+
+	test('returns an empty list when there are no items', async () => {
+		const items = await fetchAllPages(async () => ({ data: { items: null } }));
+
+		assert.deepStrictEqual(items, []);
+	});
+
+	test('stops when the same page token comes back', async () => {
+		let calls = 0;
+		const items = await fetchAllPages(async () => {
+			calls++;
+			return { data: { items: [calls], nextPageToken: 'same' } };
+		});
+
+		assert.deepStrictEqual(items, [1, 2]);
+	});
+
+	test('fails when a page cannot be fetched', async () => {
+		await assert.rejects(
+			fetchAllPages(async pageToken => {
+				if (pageToken) throw new Error('Backend Error');
+				return { data: { items: [1], nextPageToken: 'next' } };
+			}),
+			/Backend Error/
+		);
+	});
+
+	test('syncs task lists and tasks beyond the first page', async () => {
+		const taskLists = fakeList(range(2, 'list'), 1);
+		const tasks = fakeList(range(250, 'task'), 100);
+		const service = {
+			tasklists: { list: taskLists.list },
+			tasks: { list: tasks.list },
+		} as unknown as tasks_v1.Tasks;
+
+		const synced = await syncAccountTasks(service);
+
+		assert.strictEqual(synced.taskLists.length, 2);
+		synced.taskLists.forEach(taskList => assert.strictEqual(Object.keys(taskList.tasks).length, 250));
+		assert.ok(taskLists.calls.every(call => call.maxResults === 100));
+		assert.ok(tasks.calls.every(call => call.maxResults === 100));
+		assert.strictEqual(tasks.calls.length, 6);
+	});
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as http from 'http';
+
+import startOAuthCodeListener, { OAuthCodeListener } from '../../app/server';
+
+function request(url: string): Promise<{ status?: number; body: string }> {
+	return new Promise((resolve, reject) => {
+		http.get(url, { agent: false }, res => {
+			let body = '';
+			res.on('data', chunk => (body += chunk));
+			res.on('end', () => resolve({ status: res.statusCode, body }));
+		}).on('error', reject);
+	});
+}
+
+suite('OAuth loopback server', () => {
+	let listener: OAuthCodeListener | undefined;
+
+	teardown(() => {
+		if (listener) listener.close();
+		listener = undefined;
+	});
+
+	test('listens on a dynamic loopback port', async () => {
+		listener = await startOAuthCodeListener({ state: 'abc', timeout: 5000 });
+		const other = await startOAuthCodeListener({ state: 'abc', timeout: 5000 });
+		other.close();
+
+		assert.ok(/^http:\/\/127\.0\.0\.1:\d+$/.test(listener.redirectUri));
+		assert.notStrictEqual(listener.redirectUri, other.redirectUri);
+	});
+
+	test('resolves the code when the state matches', async () => {
+		listener = await startOAuthCodeListener({ state: 'abc', timeout: 5000 });
+		const response = await request(`${listener.redirectUri}/?state=abc&code=4%2F0Ab&scope=tasks`);
+
+		assert.strictEqual(response.status, 200);
+		assert.strictEqual(await listener.code, '4/0Ab');
+	});
+
+	test('ignores requests for other paths', async () => {
+		listener = await startOAuthCodeListener({ state: 'abc', timeout: 5000 });
+		const favicon = await request(`${listener.redirectUri}/favicon.ico`);
+		await request(`${listener.redirectUri}/?state=abc&code=xyz`);
+
+		assert.strictEqual(favicon.status, 404);
+		assert.strictEqual(await listener.code, 'xyz');
+	});
+
+	test('rejects a response with a different state', async () => {
+		listener = await startOAuthCodeListener({ state: 'abc', timeout: 5000 });
+		const response = await request(`${listener.redirectUri}/?state=evil&code=xyz`);
+
+		assert.strictEqual(response.status, 400);
+		await assert.rejects(listener.code, /state does not match/);
+	});
+
+	test('rejects a response without a code', async () => {
+		listener = await startOAuthCodeListener({ state: 'abc', timeout: 5000 });
+		const response = await request(`${listener.redirectUri}/?state=abc`);
+
+		assert.strictEqual(response.status, 400);
+		await assert.rejects(listener.code, /does not contain a code/);
+	});
+
+	test('shows a cancellation page when access is denied', async () => {
+		listener = await startOAuthCodeListener({ state: 'abc', timeout: 5000 });
+		const response = await request(`${listener.redirectUri}/?error=access_denied&state=abc`);
+
+		assert.strictEqual(response.status, 200);
+		assert.ok(response.body.includes('Authorization was cancelled'));
+		await assert.rejects(listener.code, /denied/);
+	});
+
+	test('escapes other errors returned by Google', async () => {
+		listener = await startOAuthCodeListener({ state: 'abc', timeout: 5000 });
+		const response = await request(`${listener.redirectUri}/?error=%3Cscript%3E&state=abc`);
+
+		assert.strictEqual(response.status, 400);
+		assert.ok(response.body.includes('&lt;script&gt;'));
+		await assert.rejects(listener.code, /Authorization failed/);
+	});
+
+	test('times out when no redirect arrives', async () => {
+		listener = await startOAuthCodeListener({ state: 'abc', timeout: 50 });
+
+		await assert.rejects(listener.code, /Timed out/);
+		await assert.rejects(request(`${listener.redirectUri}/?state=abc&code=xyz`));
+	});
+
+	test('stops after the first redirect', async () => {
+		listener = await startOAuthCodeListener({ state: 'abc', timeout: 5000 });
+		await request(`${listener.redirectUri}/?state=abc&code=xyz`);
+		await listener.code;
+
+		await assert.rejects(request(`${listener.redirectUri}/?state=abc&code=other`));
+	});
+});
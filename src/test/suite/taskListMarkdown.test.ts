@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { tasks_v1 } from 'googleapis';
+
+import { ChecklistParseError, diffChecklist, formatChecklist, parseChecklist } from '../../app/TaskListMarkdown';
+import { CachedTaskList } from '../../app/TaskCache';
+
+function list(tasks: tasks_v1.Schema$Task[]): CachedTaskList {
+	const byId: { [taskId: string]: tasks_v1.Schema$Task } = {};
+	tasks.forEach(task => (byId[task.id as string] = task));
+	return { taskList: { id: 'work', title: 'Work' }, tasks: byId };
+}
+
+function diff(cachedList: CachedTaskList, text: string) {
+	let nextId = 1;
+	return diffChecklist(cachedList, parseChecklist(text), () => `local-${nextId++}`);
+}
+
+const tasks = list([
+	{ id: 'a', title: 'Write report', position: '1', status: 'needsAction' },
+	{ id: 'b', title: 'Outline', parent: 'a', position: '1', status: 'completed' },
+	{ id: 'c', title: 'Call Bob', position: '2', status: 'needsAction' },
+	{ id: 'd', title: 'Old', position: '3', status: 'completed', hidden: true },
+]);
+const document = formatChecklist(tasks);
+
+suite('Task list Markdown', () => {
+	test('formats the visible tasks with subtasks indented', () => {
+		assert.strictEqual(
+			document,
+			'- [ ] Write report <!-- id:a -->\n  - [x] Outline <!-- id:b -->\n- [ ] Call Bob <!-- id:c -->\n'
+		);
+	});
+
+	test('reads items, ids and subtasks', () => {
+		const items = parseChecklist('- [ ] Write report <!-- id:a -->\n\n\t- [X] Outline\n* [ ] New');
+		assert.deepStrictEqual(items.map(({ id, title, completed }) => ({ id, title, completed })), [
+			{ id: 'a', title: 'Write report', completed: false },
+			{ id: undefined, title: 'New', completed: false },
+		]);
+		assert.deepStrictEqual(items[0].subtasks.map(({ title, completed, line }) => ({ title, completed, line })), [
+			{ title: 'Outline', completed: true, line: 3 },
+		]);
+	});
+
+	test('rejects lines that are not items, with their line number', () => {
+		assert.throws(() => parseChecklist('- [ ] Task\nSome text'), (err: ChecklistParseError) => err.line === 2 && /Line 2/.test(err.message));
+		assert.throws(() => parseChecklist('  - [ ] Orphan'), (err: ChecklistParseError) => err.line === 1);
+		assert.throws(() => parseChecklist('- [ ] A\n  - [ ] B\n    - [ ] C'), /only one level of subtasks/);
+		assert.throws(() => parseChecklist('- [ ]'), /needs a title/);
+	});
+
+	test('makes no changes for an unchanged document', () => {
+		assert.deepStrictEqual(diff(tasks, document), []);
+	});
+
+	test('renames, completes and reopens tasks', () => {
+		const mutations = diff(tasks, '- [x] Write the report <!-- id:a -->\n  - [ ] Outline <!-- id:b -->\n- [ ] Call Bob <!-- id:c -->');
+		assert.deepStrictEqual(mutations, [
+			{ kind: 'patchTask', params: { tasklist: 'work', task: 'a', requestBody: { title: 'Write the report', status: 'completed' } } },
+			{
+				kind: 'patchTask',
+				params: { tasklist: 'work', task: 'b', requestBody: { status: 'needsAction', completed: null, hidden: false } },
+			},
+		]);
+	});
+
+	test('adds new items after the item above them', () => {
+		const mutations = diff(tasks, `${document}- [ ] Plan trip\n  - [ ] Book flight`);
+		assert.deepStrictEqual(mutations, [
+			{
+				kind: 'insertTask',
+				params: { tasklist: 'work', parent: undefined, previous: 'c', requestBody: { title: 'Plan trip', status: 'needsAction' } },
+				localId: 'local-1',
+			},
+			{
+				kind: 'insertTask',
+				params: { tasklist: 'work', parent: 'local-1', previous: undefined, requestBody: { title: 'Book flight', status: 'needsAction' } },
+				localId: 'local-2',
+			},
+		]);
+	});
+
+	test('moves reordered and nested tasks only', () => {
+		const mutations = diff(tasks, '- [ ] Call Bob <!-- id:c -->\n- [ ] Write report <!-- id:a -->\n  - [x] Outline <!-- id:b -->');
+		assert.deepStrictEqual(mutations, [{ kind: 'moveTask', params: { tasklist: 'work', task: 'a', parent: undefined, previous: 'c' } }]);
+
+		const nested = diff(tasks, '- [ ] Write report <!-- id:a -->\n  - [x] Outline <!-- id:b -->\n  - [ ] Call Bob <!-- id:c -->');
+		assert.deepStrictEqual(nested, [{ kind: 'moveTask', params: { tasklist: 'work', task: 'c', parent: 'a', previous: 'b' } }]);
+	});
+
+	test('deletes removed tasks, moving kept subtasks out of deleted parents first', () => {
+		const mutations = diff(tasks, '- [x] Outline <!-- id:b -->\n- [ ] Call Bob <!-- id:c -->');
+		assert.deepStrictEqual(mutations, [
+			{ kind: 'moveTask', params: { tasklist: 'work', task: 'b', parent: undefined, previous: undefined } },
+			{ kind: 'deleteTask', params: { tasklist: 'work', task: 'a' } },
+		]);
+
+		assert.deepStrictEqual(diff(tasks, '- [ ] Call Bob <!-- id:c -->'), [{ kind: 'deleteTask', params: { tasklist: 'work', task: 'a' } }]);
+	});
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { tasks_v1 } from 'googleapis';
+
+import { findChangedTaskLists, syncAccountTasks } from '../../app/TaskSync';
+import { CachedAccountTasks, isClearedTask } from '../../app/TaskCache';
+
+function entry(lists: { [listId: string]: tasks_v1.Schema$Task[] }): CachedAccountTasks {
+	return {
+		syncedAt: '2024-01-01T00:00:00.000Z',
+		taskLists: Object.keys(lists).map(listId => {
+			const tasks: { [taskId: string]: tasks_v1.Schema$Task } = {};
+			lists[listId].forEach(task => (tasks[task.id as string] = task));
+			return { taskList: { id: listId, title: listId }, tasks, syncedAt: '2024-01-01T00:00:00.000Z' };
+		}),
+	};
+}
+
+suite('Task sync', () => {
+	test('only fetches the changes of lists synced before', async () => {
+		const calls: Array<{ [key: string]: any }> = [];
+		const service = {
+			tasklists: { list: async () => ({ data: { items: [{ id: 'work', title: 'work' }] } }) },
+			tasks: {
+				list: async (params: { [key: string]: any }) => {
+					calls.push(params);
+					return {
+						data: {
+							items: [
+								{ id: 'a', title: 'Renamed', etag: '2' },
+								{ id: 'b', deleted: true },
+								{ id: 'c', title: 'New', etag: '1' },
+							],
+						},
+					};
+				},
+			},
+		} as unknown as tasks_v1.Tasks;
+		const previous = entry({ work: [{ id: 'a', title: 'A', etag: '1' }, { id: 'b', title: 'B', etag: '1' }] });
+
+		const synced = await syncAccountTasks(service, previous);
+
+		assert.strictEqual(calls.length, 1);
+		assert.strictEqual(calls[0].showDeleted, true);
+		assert.ok(Date.parse(calls[0].updatedMin) < Date.parse(previous.syncedAt));
+		assert.deepStrictEqual(Object.keys(synced.taskLists[0].tasks).sort(), ['a', 'c']);
+		assert.strictEqual(synced.taskLists[0].tasks.a.title, 'Renamed');
+	});
+
+	test('keeps cleared tasks apart from tasks hidden by Google', async () => {
+		const service = {
+			tasklists: { list: async () => ({ data: { items: [{ id: 'work', title: 'work' }] } }) },
+			tasks: { list: async () => ({ data: { items: [] } }) },
+		} as unknown as tasks_v1.Tasks;
+		const previous = entry({
+			work: [
+				{ id: 'a', status: 'completed', completed: '2024-01-02T00:00:00.000Z', hidden: true },
+				{ id: 'b', status: 'completed', completed: '2024-01-04T00:00:00.000Z', hidden: true },
+			],
+		});
+		previous.taskLists[0].clearedAt = '2024-01-03T00:00:00.000Z';
+
+		const [cachedList] = (await syncAccountTasks(service, previous)).taskLists;
+
+		assert.strictEqual(cachedList.clearedAt, '2024-01-03T00:00:00.000Z');
+		assert.strictEqual(isClearedTask(cachedList.tasks.a, cachedList), true);
+		assert.strictEqual(isClearedTask(cachedList.tasks.b, cachedList), false);
+	});
+
+	test('finds the lists whose tasks changed', () => {
+		const previous = entry({ work: [{ id: 'a', etag: '1' }], home: [{ id: 'b', etag: '1' }] });
+		const current = entry({ work: [{ id: 'a', etag: '1' }], home: [{ id: 'b', etag: '2' }] });
+
+		assert.deepStrictEqual(findChangedTaskLists(previous, current), ['home']);
+		assert.deepStrictEqual(findChangedTaskLists(previous, previous), []);
+	});
+
+	test('reports added or removed lists as a full change', () => {
+		const previous = entry({ work: [] });
+		const current = entry({ work: [], home: [] });
+
+		assert.strictEqual(findChangedTaskLists(previous, current), undefined);
+	});
+});
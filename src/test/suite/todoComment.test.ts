@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+
+import { addTaskIdToComment, parseTodoComment } from '../../app/utils/TodoComment';
+
+suite('TODO comments', () => {
+	test('reads the keyword and text of comments in various languages', () => {
+		const comments = [
+			'  // TODO: Handle timeouts',
+			'x = 1  # FIXME Handle timeouts',
+			'/* TODO: Handle timeouts */',
+			' * TODO Handle timeouts',
+			'<!-- TODO: Handle timeouts -->',
+			'-- TODO: Handle timeouts',
+		].map(parseTodoComment);
+		assert.deepStrictEqual(comments.map(comment => comment && comment.text), Array(6).fill('Handle timeouts'));
+		assert.strictEqual(comments[1] && comments[1].keyword, 'FIXME');
+	});
+
+	test('ignores lines without a TODO comment', () => {
+		assert.strictEqual(parseTodoComment('const label = "TODO"'), undefined);
+		assert.strictEqual(parseTodoComment('// TODOS are tracked elsewhere'), undefined);
+		assert.strictEqual(parseTodoComment('// todo: lowercase'), undefined);
+		assert.strictEqual(parseTodoComment('print("# TODO: x")'), undefined);
+		assert.strictEqual(parseTodoComment("query = 'x--TODO'"), undefined);
+	});
+
+	test('ends the text with the comment', () => {
+		const inline = parseTodoComment('/* TODO: a */ code()');
+		assert.strictEqual(inline && inline.text, 'a');
+		const html = parseTodoComment('<!-- FIXME: b --> <p>');
+		assert.strictEqual(html && html.text, 'b');
+	});
+
+	test('reads the task id of imported comments', () => {
+		const comment = parseTodoComment('// TODO(alice, gtasks:abc-123): Handle timeouts');
+		assert.ok(comment);
+		assert.strictEqual(comment!.taskId, 'abc-123');
+		assert.strictEqual(comment!.meta, 'alice, gtasks:abc-123');
+	});
+
+	test('adds the task id after the keyword', () => {
+		const line = '    // TODO: Handle timeouts';
+		assert.strictEqual(addTaskIdToComment(line, parseTodoComment(line)!, 'abc'), '    // TODO(gtasks:abc): Handle timeouts');
+
+		const withAuthor = '# FIXME(alice) Escape quotes';
+		assert.strictEqual(
+			addTaskIdToComment(withAuthor, parseTodoComment(withAuthor)!, 'abc'),
+			'# FIXME(alice, gtasks:abc) Escape quotes'
+		);
+	});
+});
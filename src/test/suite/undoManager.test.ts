@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { tasks_v1 } from 'googleapis';
+
+import undoManager, { invertMutations, restoreTasks } from '../../app/UndoManager';
+import { CachedAccountTasks, CachedTaskList } from '../../app/TaskCache';
+import { OutboxMutation } from '../../app/Outbox';
+
+function list(tasks: tasks_v1.Schema$Task[]): CachedTaskList {
+	const byId: { [taskId: string]: tasks_v1.Schema$Task } = {};
+	tasks.forEach(task => (byId[task.id as string] = task));
+	return { taskList: { id: 'work', title: 'Work' }, tasks: byId };
+}
+
+const work = list([
+	{ id: 'a', title: 'Write report', notes: 'Q3', position: '1', status: 'needsAction' },
+	{ id: 'b', title: 'Outline', parent: 'a', position: '1', status: 'completed', completed: '2024-01-01T00:00:00.000Z' },
+	{ id: 'c', title: 'Call Bob', position: '2', status: 'needsAction', due: '2024-02-01T00:00:00.000Z' },
+]);
+const before: CachedAccountTasks = { syncedAt: '2024-01-01T00:00:00.000Z', taskLists: [work] };
+
+function rename(task: string, title: string): OutboxMutation {
+	return { kind: 'patchTask', params: { tasklist: 'work', task, requestBody: { title } } };
+}
+
+suite('Undo', () => {
+	teardown(() => {
+		undoManager.clear();
+	});
+
+	test('reverts patches with the previous values', () => {
+		const [inverse] = invertMutations(before, [
+			{ kind: 'patchTask', params: { tasklist: 'work', task: 'c', requestBody: { title: 'Call Alice', notes: 'Today' } } },
+		]);
+
+		assert.deepStrictEqual(inverse && inverse.mutations, [
+			{ kind: 'patchTask', params: { tasklist: 'work', task: 'c', requestBody: { title: 'Call Bob', notes: null } } },
+		]);
+	});
+
+	test('reverts each mutation against the tasks the earlier ones left', () => {
+		const [first, second] = invertMutations(before, [rename('a', 'Draft report'), rename('a', 'Send report')]);
+
+		assert.deepStrictEqual(first && first.mutations, [rename('a', 'Write report')]);
+		assert.deepStrictEqual(second && second.mutations, [rename('a', 'Draft report')]);
+	});
+
+	test('recreates a deleted task with its subtasks in its place', () => {
+		const [inverse] = invertMutations(before, [{ kind: 'deleteTask', params: { tasklist: 'work', task: 'c' } }]);
+		const [insert] = (inverse && inverse.mutations) || [];
+
+		assert.ok(insert && insert.kind === 'insertTask');
+		assert.deepStrictEqual(insert.params, {
+			tasklist: 'work',
+			parent: undefined,
+			previous: 'a',
+			requestBody: { title: 'Call Bob', notes: undefined, due: '2024-02-01T00:00:00.000Z', status: 'needsAction' },
+		});
+		assert.deepStrictEqual(inverse && Array.from(inverse.recreatedIds), [['c', insert.localId]]);
+	});
+
+	test('cannot revert clearing completed tasks', () => {
+		assert.deepStrictEqual(invertMutations(before, [{ kind: 'clearTasks', params: { tasklist: 'work' } }]), [undefined]);
+	});
+
+	test('restores tasks in order, with subtasks under their recreated parent', () => {
+		const recreatedIds = new Map<string, string>();
+		const mutations = restoreTasks(work, 'copy', recreatedIds);
+		const inserts = mutations.map(mutation => (mutation.kind === 'insertTask' ? mutation : undefined));
+
+		assert.deepStrictEqual(
+			inserts.map(insert => insert && insert.params.requestBody && insert.params.requestBody.title),
+			['Write report', 'Outline', 'Call Bob']
+		);
+		const [report, outline, call] = inserts.map(insert => insert && insert.localId);
+		assert.deepStrictEqual(
+			inserts.map(insert => insert && [insert.params.tasklist, insert.params.parent, insert.params.previous]),
+			[['copy', undefined, undefined], ['copy', report, undefined], ['copy', undefined, report]]
+		);
+		assert.deepStrictEqual(Array.from(recreatedIds), [['a', report], ['b', outline], ['c', call]]);
+	});
+
+	test('combines the changes made since an entry into one', () => {
+		const earlier = undoManager.record('change', 'Rename "Write report"', [rename('a', 'Write report')]);
+		undoManager.record('change', 'Rename "Call Bob"', [rename('c', 'Call Bob')]);
+		undoManager.record('change', 'Rename "Outline"', [rename('b', 'Outline')], undefined, new Map([['b', 'local-1']]));
+
+		undoManager.combineSince(earlier, 'Edit "Work"');
+		const combined = undoManager.take('undo');
+
+		assert.strictEqual(combined && combined.label, 'Edit "Work"');
+		assert.deepStrictEqual(combined && combined.mutations, [rename('b', 'Outline'), rename('c', 'Call Bob')]);
+		assert.deepStrictEqual(combined && Array.from(combined.recreatedIds), [['b', 'local-1']]);
+		assert.strictEqual(undoManager.take('undo'), earlier);
+	});
+
+	test('points earlier changes at the copies of recreated tasks', () => {
+		undoManager.record('change', 'Rename "Call Bob"', [rename('c', 'Call Bob')]);
+		undoManager.replaceIds(new Map([['c', 'local-1']]));
+
+		const entry = undoManager.take('undo');
+		assert.deepStrictEqual(entry && entry.mutations, [rename('local-1', 'Call Bob')]);
+	});
+});